@@ -1,6 +1,9 @@
-
 import type {NextConfig} from 'next';
 
+// Sub-path the static export is served from (e.g. '/piper' on GitHub Pages), or '' for
+// the domain root. Trailing slashes are dropped, since Next rejects them.
+const basePath = (process.env.NEXT_PUBLIC_BASE_PATH ?? '').replace(/\/+$/, '');
+
 const nextConfig: NextConfig = {
   /* config options here */
   typescript: {
@@ -10,8 +13,12 @@ const nextConfig: NextConfig = {
     ignoreDuringBuilds: true,
   },
   output: 'export',
-  basePath: '', // Ensure no base path is used
+  basePath,
   trailingSlash: true,
+  // Inline the normalised value, so assets resolved in `src/lib/base-path.ts` match
+  env: {
+    NEXT_PUBLIC_BASE_PATH: basePath,
+  },
 };
 
 export default nextConfig;
@@ -1,193 +1,693 @@
 "use client";
 
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DetectorSettingsPanel } from "@/components/detector-settings";
+import { FeatureMaskSettingsPanel } from "@/components/feature-mask-settings";
+import { FaceMarker, type MarkerMode } from "@/components/face-marker";
+import { LandmarkEditor } from "@/components/landmark-editor";
+import { BrushCanvas } from "@/components/brush-canvas";
+import { BrushSettingsPanel } from "@/components/brush-settings";
+import { LayerPanel } from "@/components/layer-panel";
+import { LayerPreview } from "@/components/layer-preview";
+import { ImageViewport } from "@/components/image-viewport";
+import { RecognitionSettingsPanel } from "@/components/recognition-settings";
+import { ModelStatusPanel } from "@/components/model-status";
+import { useModelStates } from "@/hooks/use-model-states";
+import { useEditHistory, type EditDirection } from "@/hooks/use-edit-history";
+import { PrivacyReportDialog } from "@/components/privacy-report-dialog";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import * as faceapi from 'face-api.js';
 import { ref, uploadBytesResumable, getDownloadURL } from "firebase/storage";
 import { collection, addDoc, serverTimestamp } from "firebase/firestore";
 import { storage, db } from "@/lib/firebase"; // adjust path if needed
 import { motion } from "framer-motion";
+import { Redo2, Undo2 } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { withBasePath } from "@/lib/base-path";
+import { DEFAULT_DETECTOR_SETTINGS, type DetectorSettings } from "@/lib/face-detector";
+import type { Point } from "@/lib/geometry";
+import { brushColor, DEFAULT_BRUSH_SETTINGS, type BrushSettings, type BrushStroke } from "@/lib/brush";
+import { compositeLayers, DEFAULT_LAYER_STACK, OVERLAY_TEXT, type LayerSources, type LayerStack } from "@/lib/compositor";
+import { LOW_SKIN_CONFIDENCE } from "@/lib/skin-tone";
+import { DEFAULT_MASK_STYLE_ID, MASK_STYLES } from "@/lib/mask-styles";
+import {
+  DEFAULT_FEATURE_MASK_CONFIG,
+  polygonsToSvg,
+  renderCutout,
+  renderMaskLayer,
+  type FeatureMaskConfig,
+  type MaskPipelineOptions,
+} from "@/lib/masking";
+import { NoFaceDetectedError, type MaskedFace, type MaskJobRequest, type MaskJobStage } from "@/lib/mask-job";
+import type { ManualFaceSelection, ManualFit } from "@/lib/manual-face";
+import { DEFAULT_RECOGNITION_SETTINGS, type EnrolledFace, type RecognitionSettings } from "@/lib/recognition";
+import { deleteEnrolledFace, listEnrolledFaces, saveEnrolledFace } from "@/lib/enrolled-faces-store";
+import type { VerificationResult } from "@/lib/reidentification";
+import { loadUprightImage } from "@/lib/image-orientation";
+import { createLandmarkFile, landmarkFileFaces, parseLandmarkFile } from "@/lib/landmark-file";
+import { cropThumbnail, downloadBlob, loadImage, pixelsToCanvas, readPixels } from "@/lib/image-utils";
+import { exportWithoutMetadata, PrivacyError, type PrivacyReport } from "@/lib/privacy";
+import { describeFaces, preloadModels, runMask, verifyImage, type MaskRunResult } from "@/lib/worker/client";
 
-export async function loadModels() {
-  const MODEL_URL = '/models';
-  await faceapi.nets.tinyFaceDetector.loadFromUri(MODEL_URL);
-  await faceapi.nets.faceLandmark68Net.loadFromUri(MODEL_URL);
+export async function loadModels(settings: DetectorSettings = DEFAULT_DETECTOR_SETTINGS) {
+  await preloadModels(settings);
 }
 
-function eraseRegionSmart(
-  ctx: CanvasRenderingContext2D,
-  points: faceapi.Point[],
-  scaleFactor: number = 1,
-  fillColor: string = "black" // default to black
-) {
-  if (!points || points.length < 2) return;
-
-  ctx.save();
-  ctx.beginPath();
-  ctx.moveTo(points[0].x, points[0].y);
-  for (let i = 1; i < points.length; i++) {
-    ctx.lineTo(points[i].x, points[i].y);
-  }
-  ctx.closePath();
-  ctx.fillStyle = fillColor;
-  ctx.fill();
-  ctx.restore();
+export interface MaskOptions extends MaskPipelineOptions {
+  faces?: Pick<MaskedFace, 'detection' | 'enabled'>[];
+  detector?: DetectorSettings;
+  manual?: MaskJobRequest['manual'];
+  verify?: MaskJobRequest['verify'];
+  recognition?: MaskJobRequest['recognition'];
+  onProgress?: (stage: MaskJobStage) => void;
 }
 
-export async function applyGreyFaceMask(image: HTMLImageElement): Promise<{ canvas: HTMLCanvasElement, skinColor: string }> {
-  const canvas = document.createElement('canvas');
-  canvas.width = image.width;
-  canvas.height = image.height;
-  const ctx = canvas.getContext('2d')!;
-  ctx.drawImage(image, 0, 0);
-
-  const originalImageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-  const originalData = originalImageData.data;
-
-  const detection = await faceapi
-    .detectSingleFace(image, new faceapi.TinyFaceDetectorOptions())
-    .withFaceLandmarks();
-
-  if (!detection) throw new Error('No face detected');
-
-  const lm = detection.landmarks;
-
-  const cheekPoints = [lm.positions[3], lm.positions[13]];
-  let rSum = 0, gSum = 0, bSum = 0;
-  for (const p of cheekPoints) {
-    const x = Math.round(p.x);
-    const y = Math.round(p.y);
-    const idx = (y * canvas.width + x) * 4;
-    rSum += originalData[idx];
-    gSum += originalData[idx + 1];
-    bSum += originalData[idx + 2];
-  }
-  const avgR = Math.round(rSum / cheekPoints.length);
-  const avgG = Math.round(gSum / cheekPoints.length);
-  const avgB = Math.round(bSum / cheekPoints.length);
-  const skinColorString = `rgb(${avgR}, ${avgG}, ${avgB})`;
-
-  // Step 2: Draw mask with skin tone
-  const jaw = lm.getJawOutline();
-  const leftBrow = lm.getLeftEyeBrow().map(p => ({ x: p.x, y: p.y - 60 }));
-  const rightBrow = lm.getRightEyeBrow().map(p => ({ x: p.x, y: p.y - 60 }));
-  const faceRegion = [...leftBrow, ...rightBrow.reverse(), ...jaw.reverse()];
-
-  ctx.save();
-  ctx.beginPath();
-  ctx.moveTo(faceRegion[0].x, faceRegion[0].y);
-  faceRegion.forEach(p => ctx.lineTo(p.x, p.y));
-  ctx.closePath();
-  ctx.clip();
-
-  ctx.fillStyle = skinColorString;
-  ctx.fillRect(0, 0, canvas.width, canvas.height);
-  ctx.restore();
-
-  const mergePoints = (a: faceapi.Point[], b: faceapi.Point[]) => {
-    return [...a, ...b.reverse()];
-  };
-
-  const leftEyeRegion = mergePoints(lm.getLeftEye(), lm.getLeftEyeBrow());
-  const rightEyeRegion = mergePoints(lm.getRightEye(), lm.getRightEyeBrow());
-  eraseRegionSmart(ctx, leftEyeRegion, 1.5, "black");
-  eraseRegionSmart(ctx, rightEyeRegion, 1.5, "black");
-  eraseRegionSmart(ctx, lm.getNose(), 1.4, "black");
-  eraseRegionSmart(ctx, lm.getMouth(), 1.5, "black");
-
-
-
-  return { canvas, skinColor: skinColorString };
+// Masks every enabled face. Pass previously detected faces to re-render (e.g. after
+// toggling a face) without running detection again. Detection and pixel work run in
+// the mask worker when the browser supports it.
+export async function applyGreyFaceMask(
+  image: HTMLImageElement,
+  { faces, manual, detector = DEFAULT_DETECTOR_SETTINGS, verify, recognition, onProgress, ...options }: MaskOptions = {}
+): Promise<MaskRunResult> {
+  return runMask(image, { faces, manual, detector, options, verify, recognition }, onProgress);
 }
 
+const PROCESSING_MESSAGES: Record<MaskJobStage, string> = {
+  'loading-models': 'Loading face models...',
+  detecting: 'Finding faces...',
+  masking: 'Applying the mask...',
+  verifying: 'Checking the mask hides every face...',
+};
+
 const skinToneGrey = "#D3D3D3";
 
+// Separate layers for recompositing in other tools, next to the flattened download
+type LayerExport = 'cutout' | 'mask' | 'svg';
+
+const LAYER_EXPORTS: { kind: LayerExport; label: string }[] = [
+  { kind: 'cutout', label: 'Transparent cut-out (PNG)' },
+  { kind: 'mask', label: 'Mask layer (PNG)' },
+  { kind: 'svg', label: 'Face and feature paths (SVG)' },
+];
+
+// Everything a mask edit can change, enough to re-render it without detecting again
+interface MaskEditState {
+  faces: Pick<MaskedFace, 'detection' | 'enabled'>[];
+  styleId: string;
+  hairlineSearch: boolean;
+  features: FeatureMaskConfig;
+  recognition: RecognitionSettings;
+}
+
+// Tool settings that shape later work rather than the current picture
+interface SettingsEditState {
+  detector: DetectorSettings;
+  brush: BrushSettings;
+  verifyLandmarks: boolean;
+}
+
+const DEFAULT_SETTINGS_EDIT_STATE: SettingsEditState = {
+  detector: DEFAULT_DETECTOR_SETTINGS,
+  brush: DEFAULT_BRUSH_SETTINGS,
+  verifyLandmarks: false,
+};
+
+// Undoable edits. Mask, layer and settings edits keep the state on both sides; strokes are
+// kept as strokes.
+type PageEdit =
+  | { kind: 'stroke'; stroke: BrushStroke }
+  | { kind: 'clear-strokes'; strokes: BrushStroke[] }
+  | { kind: 'mask'; before: MaskEditState; after: MaskEditState }
+  | { kind: 'layers'; before: LayerStack; after: LayerStack }
+  | { kind: 'settings'; before: SettingsEditState; after: SettingsEditState };
+
+type PendingExport = { blob: Blob; report: PrivacyReport } & (
+  | { action: 'share' }
+  | { action: 'download'; fileName: string }
+);
+
+const editableFaces = (faces: Pick<MaskedFace, 'detection' | 'enabled'>[]) =>
+  faces.map(({ detection, enabled }) => ({ detection, enabled }));
+
 export default function Home() {
+  const router = useRouter();
   const [image, setImage] = useState<string | null>(null);
   const [bwImage, setBwImage] = useState<string | null>(null);
-  const [brushSize, setBrushSize] = useState<number>(10);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const imageRef = useRef<HTMLImageElement>(null);
-  const [maskedImage, setMaskedImage] = useState<string | null>(null);
+  const [maskedImage, setMaskedImage] = useState<HTMLCanvasElement | null>(null); // the mask layer
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [drawing, setDrawing] = useState(false);
-  const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
-  const [overlayImage, setOverlayImage] = useState<string | null>(null);
+  // A re-render of the current photo is running; undo/redo wait for it
+  const [isRendering, setIsRendering] = useState<boolean>(false);
+  const renderRequestRef = useRef(0);
+  const pendingRendersRef = useRef(0);
+  const [processingStage, setProcessingStage] = useState<MaskJobStage | null>(null);
   const [skinColor, setSkinColor] = useState<string>(skinToneGrey);
+  const [brushing, setBrushing] = useState<boolean>(false);
+  const [brushSettings, setBrushSettings] = useState<BrushSettings>(DEFAULT_SETTINGS_EDIT_STATE.brush);
+  const [strokes, setStrokes] = useState<BrushStroke[]>([]); // touch-ups, in image pixels
+  const [layers, setLayers] = useState<LayerStack>(DEFAULT_LAYER_STACK);
+  const committedLayersRef = useRef<LayerStack>(DEFAULT_LAYER_STACK); // before an opacity drag, for undo
+  const [brandingImage, setBrandingImage] = useState<HTMLImageElement | null>(null);
   const [uploadProgress, setUploadProgress] = useState<number | null>(null); // upload progress
+  const [faces, setFaces] = useState<MaskedFace[]>([]);
+  const [maskStyleId, setMaskStyleId] = useState<string>(DEFAULT_MASK_STYLE_ID);
+  const [hairlineSearch, setHairlineSearch] = useState<boolean>(false);
+  const [featureConfig, setFeatureConfig] = useState<FeatureMaskConfig>(DEFAULT_FEATURE_MASK_CONFIG);
+  const [appliedFeatureConfig, setAppliedFeatureConfig] = useState<FeatureMaskConfig | null>(null); // saved with shared images
+  const [verifyLandmarks, setVerifyLandmarks] = useState<boolean>(DEFAULT_SETTINGS_EDIT_STATE.verifyLandmarks);
+  const [verification, setVerification] = useState<VerificationResult | null>(null);
+  const [checkingShare, setCheckingShare] = useState(false);
+  // The flattened preview as drawn, mirrored by the minimap
+  const [previewCanvas, setPreviewCanvas] = useState<HTMLCanvasElement | null>(null);
+  const [previewRevision, setPreviewRevision] = useState(0);
+  const [detectorSettings, setDetectorSettings] = useState<DetectorSettings>(DEFAULT_SETTINGS_EDIT_STATE.detector);
+  // Settings as of the last commit; sliders move the state ahead of it
+  const committedSettingsRef = useRef<SettingsEditState>(DEFAULT_SETTINGS_EDIT_STATE);
+  const sourceImageRef = useRef<HTMLImageElement | null>(null); // original photo, kept for re-rendering
+  const captureInputRef = useRef<HTMLInputElement>(null);
+  const landmarkInputRef = useRef<HTMLInputElement>(null);
+  const [detectedWith, setDetectedWith] = useState<DetectorSettings | null>(null); // detector behind the current faces
+  const [editingLandmarks, setEditingLandmarks] = useState<boolean>(false);
+  const [draftLandmarks, setDraftLandmarks] = useState<Point[][] | null>(null); // while handles are dragged
+  const detectedLandmarksRef = useRef<Point[][]>([]); // as detected or imported, for "reset"
+  const landmarkDragRef = useRef<MaskEditState | null>(null); // mask state before the current drag
+  const [detectionFailed, setDetectionFailed] = useState<boolean>(false); // offers manual selection
+  const [markerMode, setMarkerMode] = useState<MarkerMode>('box');
+  const [manualFit, setManualFit] = useState<ManualFit>('landmark-net');
+  const [recognitionSettings, setRecognitionSettings] = useState<RecognitionSettings>(DEFAULT_RECOGNITION_SETTINGS);
+  const [enrolledFaces, setEnrolledFaces] = useState<EnrolledFace[]>([]);
+  const landmarkRenderRef = useRef<{ running: boolean; next: { landmarks: Point[][]; verify: boolean } | null }>({
+    running: false,
+    next: null,
+  });
+  const [sourceFile, setSourceFile] = useState<Blob | null>(null); // as uploaded, for the privacy report
+  // A cleaned image waiting for the user to confirm its privacy report
+  const [pendingExport, setPendingExport] = useState<PendingExport | null>(null);
+
+  const modelStates = useModelStates();
+
+  // Failures show up in the model status panel, which offers a retry
+  const preload = async (settings: DetectorSettings = detectorSettings) => {
+    try {
+      await loadModels(settings);
+    } catch (error) {
+      console.error("Failed to load face-api models:", error);
+    }
+  };
 
   useEffect(() => {
-    const load = async () => {
-      setIsLoading(true);
-      try {
-        await loadModels();
-      } catch (error) {
-        console.error("Failed to load face-api models:", error);
-        alert('Failed to load face detection models. Please check the console for details.');
-      } finally {
-        setIsLoading(false);
-      }
-    };
-    load();
+    preload();
+
+    listEnrolledFaces()
+      .then(setEnrolledFaces)
+      .catch(error => console.error("Failed to read enrolled faces:", error));
+
+    loadImage(withBasePath("/koc-logo.png"))
+      .then(setBrandingImage)
+      .catch(error => console.error("Failed to load the logo layer:", error));
   }, []);
 
+  // Recognition only runs when a rule other than "mask everyone" is chosen
+  const recognitionJob = (
+    settings: RecognitionSettings = recognitionSettings,
+    enrolled: EnrolledFace[] = enrolledFaces
+  ): MaskJobRequest['recognition'] =>
+    settings.rule === 'all'
+      ? undefined
+      : { ...settings, enrolled: enrolled.map(({ id, name, descriptor }) => ({ id, name, descriptor })) };
+
+  // Renders can overlap (e.g. a slider commit while a re-render is still running), and
+  // only the newest may be shown, so the picture always matches the latest edit
+  const startRender = () => ++renderRequestRef.current;
+  const isLatestRender = (request: number) => request === renderRequestRef.current;
+
+  const showMaskResult = ({ canvas, faces: maskedFaces, featureConfig: applied, verification }: MaskRunResult) => {
+    setMaskedImage(canvas);
+    setFaces(maskedFaces);
+    setAppliedFeatureConfig(applied);
+    setVerification(verification);
+
+    const firstEnabled = maskedFaces.find(face => face.enabled) ?? maskedFaces[0];
+    setSkinColor(firstEnabled.skinColor);
+  };
+
+  const processImage = async (image: HTMLImageElement, overrides: MaskOptions = {}) => {
+    sourceImageRef.current = image;
+    setEditingLandmarks(false);
+    setDraftLandmarks(null);
+    setDetectionFailed(false);
+    startRender();
+    try {
+      const result = await applyGreyFaceMask(image, {
+        styleId: maskStyleId,
+        detector: detectorSettings,
+        hairlineSearch,
+        features: featureConfig,
+        verify: { landmarks: verifyLandmarks },
+        recognition: recognitionJob(),
+        onProgress: setProcessingStage,
+        ...overrides,
+      });
+      showMaskResult(result);
+      detectedLandmarksRef.current = result.faces.map(face => face.detection.landmarks);
+      setDetectedWith(detectorSettings);
+      return result;
+    } finally {
+      setProcessingStage(null);
+    }
+  };
+
+  // No face found is not a dead end: the photo is shown for marking the face by hand
+  const handleProcessingError = (error: any) => {
+    setMaskedImage(null);
+    setFaces([]);
+    if (error instanceof NoFaceDetectedError) {
+      setDetectionFailed(true);
+      return;
+    }
+    console.error("Face detection or masking failed:", error);
+    alert(`Face detection or masking failed: ${error.message}`);
+  };
+
+  const handleManualSelect = async (selection: ManualFaceSelection) => {
+    const source = sourceImageRef.current;
+    if (!source) return;
+
+    setIsLoading(true);
+    startRender();
+    try {
+      const result = await applyGreyFaceMask(source, {
+        manual: { selections: [selection], fit: manualFit },
+        styleId: maskStyleId,
+        detector: detectorSettings,
+        hairlineSearch,
+        features: featureConfig,
+        verify: { landmarks: verifyLandmarks },
+        onProgress: setProcessingStage,
+      });
+      showMaskResult(result);
+      detectedLandmarksRef.current = result.faces.map(face => face.detection.landmarks);
+      setDetectedWith(detectorSettings);
+      setDetectionFailed(false);
+    } catch (error: any) {
+      console.error("Masking the marked face failed:", error);
+      alert(`Masking the marked face failed: ${error.message}`);
+    } finally {
+      setProcessingStage(null);
+      setIsLoading(false);
+    }
+  };
+
+  // Re-renders the current photo from the already detected faces
+  const rerenderMask = async (options: MaskOptions) => {
+    const source = sourceImageRef.current;
+    if (!source || (options.faces ?? faces).length === 0) return;
+
+    const request = startRender();
+    pendingRendersRef.current++;
+    setIsRendering(true);
+    try {
+      // Every re-render is checked again, since a different style or face selection can
+      // change what the detector still sees
+      const result = await applyGreyFaceMask(source, {
+        faces,
+        styleId: maskStyleId,
+        detector: detectorSettings,
+        hairlineSearch,
+        features: featureConfig,
+        verify: { landmarks: verifyLandmarks },
+        recognition: recognitionJob(),
+        ...options,
+      });
+      if (isLatestRender(request)) showMaskResult(result);
+    } catch (error: any) {
+      if (!isLatestRender(request)) return;
+      console.error("Re-rendering the mask failed:", error);
+      alert(`Re-rendering the mask failed: ${error.message}`);
+    } finally {
+      pendingRendersRef.current--;
+      setIsRendering(pendingRendersRef.current > 0);
+    }
+  };
+
+  const maskEditState = (): MaskEditState => ({
+    faces: editableFaces(faces),
+    styleId: maskStyleId,
+    hairlineSearch,
+    // Sliders update featureConfig while they move; the applied config is what's on screen
+    features: appliedFeatureConfig ?? featureConfig,
+    recognition: recognitionSettings,
+  });
+
+  const restoreMask = ({ faces, styleId, hairlineSearch, features, recognition }: MaskEditState) => {
+    setMaskStyleId(styleId);
+    setHairlineSearch(hairlineSearch);
+    setFeatureConfig(features);
+    setRecognitionSettings(recognition);
+    setDraftLandmarks(null);
+    setDetectionFailed(false);
+    rerenderMask({ faces, styleId, hairlineSearch, features, recognition: recognitionJob(recognition) });
+  };
+
+  // Without faces to go back to, undoing would mean detecting again, so such edits aren't kept
+  const recordMaskEdit = (before: MaskEditState, after: MaskEditState) => {
+    if (before.faces.length === 0) return;
+    history.push({ kind: 'mask', before, after: { ...after, faces: editableFaces(after.faces) } });
+  };
+
+  const commitMaskEdit = (patch: Partial<MaskEditState>) => {
+    const before = maskEditState();
+    const after = { ...before, ...patch };
+    recordMaskEdit(before, after);
+    restoreMask(after);
+  };
+
+  const applyEdit = (edit: PageEdit, direction: EditDirection) => {
+    switch (edit.kind) {
+      case 'stroke':
+        setStrokes(current => (direction === 'undo' ? current.slice(0, -1) : [...current, edit.stroke]));
+        break;
+      case 'clear-strokes':
+        setStrokes(direction === 'undo' ? edit.strokes : []);
+        break;
+      case 'mask':
+        restoreMask(direction === 'undo' ? edit.before : edit.after);
+        break;
+      case 'layers':
+        committedLayersRef.current = direction === 'undo' ? edit.before : edit.after;
+        setLayers(committedLayersRef.current);
+        break;
+      case 'settings':
+        restoreSettings(direction === 'undo' ? edit.before : edit.after);
+        break;
+    }
+  };
+
+  const history = useEditHistory<PageEdit>(applyEdit, !isLoading && !isRendering);
+
+  // The check ran on the mask before any touch-ups; a restore stroke can bring a face back,
+  // so the old result is dropped and sharing checks the flattened picture instead
+  const previousStrokesRef = useRef<BrushStroke[]>([]);
+  useEffect(() => {
+    const hasRestore = (list: BrushStroke[]) => list.some(stroke => stroke.tool === 'restore');
+    if (hasRestore(strokes) || hasRestore(previousStrokesRef.current)) setVerification(null);
+    previousStrokesRef.current = strokes;
+  }, [strokes]);
+
+  const addStroke = (stroke: BrushStroke) => {
+    setStrokes(current => [...current, stroke]);
+    history.push({ kind: 'stroke', stroke });
+  };
+
+  const clearStrokes = () => {
+    history.push({ kind: 'clear-strokes', strokes });
+    setStrokes([]);
+  };
+
+  const handleLayersCommit = (next: LayerStack) => {
+    history.push({ kind: 'layers', before: committedLayersRef.current, after: next });
+    committedLayersRef.current = next;
+    setLayers(next);
+  };
+
+  // Renders the newest edited landmarks. Edits that arrive while a render is running
+  // replace each other, so dragging never queues up stale renders. The detector check
+  // only runs once a drag ends.
+  const renderLandmarks = async (landmarks: Point[][], verify: boolean) => {
+    const queue = landmarkRenderRef.current;
+    queue.next = { landmarks, verify };
+    if (queue.running) return;
+
+    queue.running = true;
+    try {
+      while (queue.next) {
+        const next = queue.next;
+        queue.next = null;
+        await rerenderMask({
+          faces: faces.map((face, i) => ({ ...face, detection: { ...face.detection, landmarks: next.landmarks[i] } })),
+          verify: next.verify ? { landmarks: verifyLandmarks } : undefined,
+        });
+      }
+    } finally {
+      queue.running = false;
+    }
+  };
+
+  const withLandmarks = (state: MaskEditState, landmarks: Point[][]): MaskEditState => ({
+    ...state,
+    faces: state.faces.map((face, i) => ({ ...face, detection: { ...face.detection, landmarks: landmarks[i] } })),
+  });
+
+  const handleLandmarkDrag = (landmarks: Point[][]) => {
+    // Each drag is one edit; the faces are re-rendered while it runs, so keep them from before
+    if (!landmarkDragRef.current) landmarkDragRef.current = maskEditState();
+    setDraftLandmarks(landmarks);
+    renderLandmarks(landmarks, false);
+  };
+
+  const handleLandmarkDrop = (landmarks: Point[][]) => {
+    const before = landmarkDragRef.current;
+    landmarkDragRef.current = null;
+    if (before) recordMaskEdit(before, withLandmarks(before, landmarks));
+    setDraftLandmarks(landmarks);
+    renderLandmarks(landmarks, true);
+  };
+
+  const resetLandmarks = () => {
+    const detected = detectedLandmarksRef.current;
+    if (detected.length !== faces.length) return;
+    const before = maskEditState();
+    recordMaskEdit(before, withLandmarks(before, detected));
+    setDraftLandmarks(detected);
+    renderLandmarks(detected, true);
+  };
+
+  // The brush and the landmark handles would fight over the same pointer, so only one is on
+  const handleEditLandmarksChange = (enabled: boolean) => {
+    setEditingLandmarks(enabled);
+    setDraftLandmarks(null);
+    if (enabled) setBrushing(false);
+  };
+
+  const handleBrushingChange = (enabled: boolean) => {
+    setBrushing(enabled);
+    if (enabled) handleEditLandmarksChange(false);
+  };
+
+  const toggleFace = (index: number, enabled: boolean) => {
+    commitMaskEdit({ faces: faces.map((face, i) => (i === index ? { ...face, enabled } : face)) });
+  };
+
+  const handleStyleChange = (styleId: string) => {
+    commitMaskEdit({ styleId });
+  };
+
+  // `recognition` is the rule behind overrides.recognition, kept with the edit for undo
+  const redetectFaces = async (overrides: MaskOptions = {}, recognition: RecognitionSettings = recognitionSettings) => {
+    const source = sourceImageRef.current;
+    if (!source) return;
+
+    setIsLoading(true);
+    try {
+      const before = maskEditState();
+      const result = await processImage(source, overrides);
+      recordMaskEdit(before, {
+        ...before,
+        faces: result.faces,
+        recognition,
+      });
+    } catch (error) {
+      handleProcessingError(error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // The rule picks which faces start out masked, so changing it means detecting again
+  const handleRecognitionCommit = (settings: RecognitionSettings) => {
+    setRecognitionSettings(settings);
+    redetectFaces({ recognition: recognitionJob(settings) }, settings);
+  };
+
+  const enrolFace = async (file: File, name: string) => {
+    try {
+      const reference = await loadImage(await loadUprightImage(file));
+      const found = await describeFaces(reference, detectorSettings);
+      // A reference photo may include other people; the largest face is the one enrolled
+      const face = found
+        .filter(detection => detection.descriptor)
+        .sort((a, b) => b.box.width * b.box.height - a.box.width * a.box.height)[0];
+      if (!face?.descriptor) {
+        alert("No face was found in that photo. Try a clear, front-facing picture.");
+        return;
+      }
+
+      const enrolled: EnrolledFace = {
+        id: crypto.randomUUID(),
+        name,
+        descriptor: face.descriptor,
+        thumbnail: cropThumbnail(reference, face.box),
+        createdAt: Date.now(),
+      };
+      await saveEnrolledFace(enrolled);
+      const next = [...enrolledFaces, enrolled];
+      setEnrolledFaces(next);
+      if (recognitionSettings.rule !== 'all') redetectFaces({ recognition: recognitionJob(recognitionSettings, next) });
+    } catch (error: any) {
+      console.error("Enrolling the face failed:", error);
+      alert(`Enrolling the face failed: ${error.message}`);
+    }
+  };
+
+  const removeEnrolledFace = async (id: string) => {
+    try {
+      await deleteEnrolledFace(id);
+      const next = enrolledFaces.filter(face => face.id !== id);
+      setEnrolledFaces(next);
+      if (recognitionSettings.rule !== 'all') redetectFaces({ recognition: recognitionJob(recognitionSettings, next) });
+    } catch (error: any) {
+      console.error("Removing the enrolled face failed:", error);
+      alert(`Removing the enrolled face failed: ${error.message}`);
+    }
+  };
+
+  const handleHairlineSearchChange = (enabled: boolean) => {
+    commitMaskEdit({ hairlineSearch: enabled });
+  };
+
+  const handleFeatureConfigCommit = (features: FeatureMaskConfig) => {
+    commitMaskEdit({ features });
+  };
+
+  const restoreSettings = (settings: SettingsEditState) => {
+    committedSettingsRef.current = settings;
+    setDetectorSettings(settings.detector);
+    setBrushSettings(settings.brush);
+    if (settings.verifyLandmarks !== verifyLandmarks) {
+      setVerifyLandmarks(settings.verifyLandmarks);
+      rerenderMask({ verify: { landmarks: settings.verifyLandmarks } });
+    }
+  };
+
+  const commitSettings = (patch: Partial<SettingsEditState>) => {
+    const before = committedSettingsRef.current;
+    const after = { ...before, ...patch };
+    // e.g. the colour picker closing on the colour it opened with
+    if (JSON.stringify(after) === JSON.stringify(before)) return;
+    history.push({ kind: 'settings', before, after });
+    restoreSettings(after);
+  };
+
+  const handleVerifyLandmarksChange = (enabled: boolean) => {
+    commitSettings({ verifyLandmarks: enabled });
+  };
+
+  // Sharing stays blocked while the detector can still find a masked face
+  const stillRecognisable = verification !== null && !verification.passed;
+  // A hidden or see-through mask layer would let the original photo show through
+  const maskLayerIncomplete = !layers.mask.visible || layers.mask.opacity < 1;
+
+  const maskedFaceCount = faces.filter(face => face.enabled).length;
+  const unreliableSkinFaces = faces
+    .map((face, index) => ({ face, index }))
+    .filter(({ face }) => face.enabled && face.skinConfidence < LOW_SKIN_CONFIDENCE);
+
   const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    const reader = new FileReader();
-    reader.onloadend = async () => {
-      const imgDataUrl = reader.result as string;
-      setImage(imgDataUrl);
+    let imgDataUrl: string;
+    try {
+      // Phone photos often store rotated pixels plus an orientation tag
+      imgDataUrl = await loadUprightImage(file);
+    } catch (error) {
+      console.error("Failed to load image:", error);
+      alert('Failed to load image.');
+      return;
+    }
+    setImage(imgDataUrl);
+    setSourceFile(file);
+    setStrokes([]);
+    history.clear();
 
-      const image = new Image();
-      image.src = imgDataUrl;
-      image.onload = async () => {
-        setIsLoading(true);
-        try {
-          const { canvas, skinColor } = await applyGreyFaceMask(image);
-          setMaskedImage(canvas.toDataURL('image/png'));
-          setSkinColor(skinColor);
-
-          if (overlayCanvasRef.current) {
-            const overlayCtx = overlayCanvasRef.current.getContext('2d');
-            if (overlayCtx) {
-              overlayCanvasRef.current.width = canvas.width;
-              overlayCanvasRef.current.height = canvas.height;
-              drawOverlayText(overlayCanvasRef.current);
-            }
-          }
-        } catch (error: any) {
-          console.error("Face detection or masking failed:", error);
-          alert(`Face detection or masking failed: ${error.message}`);
-          setMaskedImage(null);
-        } finally {
-          setIsLoading(false);
-        }
-      };
-      image.onerror = () => {
-        console.error("Failed to load image");
-        alert('Failed to load image.');
+    const image = new Image();
+    image.src = imgDataUrl;
+    image.onload = async () => {
+      setIsLoading(true);
+      try {
+        await processImage(image);
+      } catch (error) {
+        handleProcessingError(error);
+      } finally {
         setIsLoading(false);
-      };
+      }
     };
-    reader.readAsDataURL(file);
+    image.onerror = () => {
+      console.error("Failed to load image");
+      alert('Failed to load image.');
+      setIsLoading(false);
+    };
+  };
+  // The mask is re-rendered whenever it changes, so a new source photo always comes with a
+  // new mask and the memo never pairs a photo with another photo's mask
+  const layerSources = useMemo<LayerSources | null>(() => {
+    const original = sourceImageRef.current;
+    if (!original || !maskedImage) return null;
+    return { original, mask: maskedImage, strokes, text: OVERLAY_TEXT, branding: brandingImage };
+  }, [maskedImage, strokes, brandingImage]);
+
+  const handlePreviewRender = (canvas: HTMLCanvasElement) => {
+    setPreviewCanvas(canvas);
+    setPreviewRevision(revision => revision + 1);
   };
+
+  // Every file that leaves the device goes through the privacy stage first. The layers
+  // are flattened at full resolution, as they are shown.
+  const exportMaskedImage = async (flattened?: HTMLCanvasElement) => {
+    if (!layerSources) throw new Error("No masked image available.");
+    if (maskLayerIncomplete) throw new Error("The face mask layer is hidden or not fully opaque.");
+    return exportWithoutMetadata(flattened ?? compositeLayers(layerSources, layers), sourceFile);
+  };
+
   const handleShare = async () => {
-    if (!maskedImage) return;
-  
+    if (!layerSources || stillRecognisable || maskLayerIncomplete) return;
+
+    setCheckingShare(true);
+    try {
+      // The mask was verified before any layer changes, so the picture that would
+      // actually be shared is checked again
+      const flattened = compositeLayers(layerSources, layers);
+      const check = await verifyImage(flattened, faces, detectorSettings, verifyLandmarks);
+      if (!check.passed) {
+        setVerification(check);
+        return;
+      }
+      setPendingExport({ ...(await exportMaskedImage(flattened)), action: 'share' });
+    } catch (err) {
+      console.error("Preparing the image failed:", err);
+      alert(err instanceof PrivacyError
+        ? "The image could not be cleaned of metadata, so it was not shared."
+        : "Failed to prepare the image. Please try again.");
+    } finally {
+      setCheckingShare(false);
+    }
+  };
+
+  const uploadSharedImage = async (blob: Blob) => {
+    setPendingExport(null);
+
     const fileName = `masked_faces/${Date.now()}.png`;
     const imageRef = ref(storage, fileName);
   
     try {
-      // Convert the data URL to a Blob
-      const response = await fetch(maskedImage);
-      const blob = await response.blob();
-  
       // Upload the Blob using uploadBytesResumable
-      const uploadTask = uploadBytesResumable(imageRef, blob);
+      const uploadTask = uploadBytesResumable(imageRef, blob, { contentType: 'image/png' });
   
       // Monitor the upload progress
       uploadTask.on('state_changed',
@@ -209,11 +709,12 @@ export default function Home() {
           await addDoc(collection(db, "images"), {
             image_url: downloadURL,
             created_at: serverTimestamp(),
+            mask_settings: { style_id: maskStyleId, features: appliedFeatureConfig },
           });
   
           setUploadProgress(null);
           alert("Image shared successfully!");
-          window.location.href = "/gallery"; // Make sure this route exists
+          router.push("/gallery");
         }
       );
     } catch (err) {
@@ -224,61 +725,124 @@ export default function Home() {
   };
   
 
-  const handleDownload = () => {
+  const handleDownload = async () => {
     if (!maskedImage) {
       alert("No masked image available to download.");
       return;
     }
 
-    const a = document.createElement('a');
-    a.href = maskedImage;
-    a.download = 'masked_face.png';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
+    try {
+      setPendingExport({ ...(await exportMaskedImage()), action: 'download', fileName: 'masked_face.png' });
+    } catch (err) {
+      console.error("Preparing the download failed:", err);
+      alert(err instanceof PrivacyError
+        ? "The image could not be cleaned of metadata, so it was not downloaded."
+        : "Failed to prepare the download. Please try again.");
+    }
   };
 
-  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    setDrawing(true);
-    const canvas = overlayCanvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+  const confirmExport = () => {
+    if (!pendingExport) return;
+    if (pendingExport.action === 'share') {
+      uploadSharedImage(pendingExport.blob);
+      return;
+    }
+    downloadBlob(pendingExport.blob, pendingExport.fileName);
+    setPendingExport(null);
+  };
 
-    ctx.lineWidth = brushSize;
-    ctx.lineCap = 'round';
-    ctx.strokeStyle = skinColor;
+  const handleLandmarkExport = () => {
+    const source = sourceImageRef.current;
+    if (!source || faces.length === 0) return;
 
-    const x = e.nativeEvent.offsetX;
-    const y = e.nativeEvent.offsetY;
-    ctx.beginPath();
-    ctx.moveTo(x, y);
+    const file = createLandmarkFile(
+      source,
+      detectedWith ?? detectorSettings,
+      faces,
+      appliedFeatureConfig ? { styleId: maskStyleId, features: appliedFeatureConfig } : undefined
+    );
+    downloadBlob(new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' }), 'masked_face_landmarks.json');
   };
 
-  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!drawing) return;
-    const canvas = overlayCanvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+  // Masks the current photo from a landmark file instead of running detection
+  const handleLandmarkImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    const source = sourceImageRef.current;
+    if (!file || !source) return;
 
-    const x = e.nativeEvent.offsetX;
-    const y = e.nativeEvent.offsetY;
-    ctx.lineTo(x, y);
-    ctx.stroke();
-    setOverlayImage(canvas.toDataURL('image/png'));
-  };
+    setIsLoading(true);
+    try {
+      const landmarks = parseLandmarkFile(await file.text());
+      const importedFaces = landmarkFileFaces(landmarks, source);
+      const styleId = landmarks.mask?.styleId ?? maskStyleId;
+      const features = landmarks.mask?.features ?? featureConfig;
+      const before = maskEditState();
 
-  const handleMouseUp = () => {
-    setDrawing(false);
+      setMaskStyleId(styleId);
+      setFeatureConfig(features);
+      setDetectorSettings(landmarks.detector);
+      committedSettingsRef.current = { ...committedSettingsRef.current, detector: landmarks.detector };
+      setEditingLandmarks(false);
+      setDraftLandmarks(null);
+      startRender();
+      const result = await applyGreyFaceMask(source, {
+        faces: importedFaces,
+        styleId,
+        features,
+        detector: landmarks.detector,
+        hairlineSearch,
+        verify: { landmarks: verifyLandmarks },
+        onProgress: setProcessingStage,
+      });
+      showMaskResult(result);
+      recordMaskEdit(before, { ...before, faces: result.faces, styleId, features });
+      detectedLandmarksRef.current = result.faces.map(face => face.detection.landmarks);
+      setDetectedWith(landmarks.detector);
+      setDetectionFailed(false);
+    } catch (error: any) {
+      console.error("Importing landmarks failed:", error);
+      alert(`Importing landmarks failed: ${error.message}`);
+    } finally {
+      setProcessingStage(null);
+      setIsLoading(false);
+    }
   };
 
-  const handleMouseLeave = () => {
-    setDrawing(false);
+  const handleLayerExport = async (kind: LayerExport) => {
+    const source = sourceImageRef.current;
+    const polygons = faces.filter(face => face.enabled).map(face => face.polygons);
+    if (!source || polygons.length === 0) return;
+
+    try {
+      if (kind === 'svg') {
+        const svg = polygonsToSvg(source.width, source.height, polygons);
+        downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), 'masked_face_paths.svg');
+        return;
+      }
+
+      const layer = kind === 'cutout'
+        ? renderCutout(readPixels(source), polygons)
+        : renderMaskLayer(source.width, source.height, polygons);
+      setPendingExport({
+        ...(await exportWithoutMetadata(pixelsToCanvas(layer), sourceFile)),
+        action: 'download',
+        fileName: kind === 'cutout' ? 'masked_face_cutout.png' : 'masked_face_mask.png',
+      });
+    } catch (err) {
+      console.error("Preparing the export failed:", err);
+      alert(err instanceof PrivacyError
+        ? "The image could not be cleaned of metadata, so it was not exported."
+        : "Failed to prepare the export. Please try again.");
+    }
   };
+
   const capturePhotoDirectly = async () => {
     if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
-      alert("Camera not supported on this device");
+      // Fall back to the OS camera through a capture input; its JPEGs carry EXIF
+      // orientation and go through the same upload path
+      if (captureInputRef.current) captureInputRef.current.click();
+      else alert("Camera not supported on this device");
       return;
     }
   
@@ -299,27 +863,18 @@ export default function Home() {
   
       const dataUrl = canvas.toDataURL("image/png");
       setImage(dataUrl);
+      setSourceFile(null);
+      setStrokes([]);
+      history.clear();
   
       const img = new Image();
       img.src = dataUrl;
       img.onload = async () => {
         setIsLoading(true);
         try {
-          const { canvas, skinColor } = await applyGreyFaceMask(img);
-          setMaskedImage(canvas.toDataURL("image/png"));
-          setSkinColor(skinColor);
-          if (overlayCanvasRef.current) {
-            const overlayCtx = overlayCanvasRef.current.getContext("2d");
-            if (overlayCtx) {
-              overlayCanvasRef.current.width = canvas.width;
-              overlayCanvasRef.current.height = canvas.height;
-              drawOverlayText(overlayCanvasRef.current);
-            }
-          }
-        } catch (err: any) {
-          alert(`Face detection failed: ${err.message}`);
-          console.error(err);
-          setMaskedImage(null);
+          await processImage(img);
+        } catch (error) {
+          handleProcessingError(error);
         } finally {
           setIsLoading(false);
         }
@@ -331,17 +886,6 @@ export default function Home() {
   };
   
 
-  function drawOverlayText(canvas: HTMLCanvasElement) {
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    const text = "EVERYTHING WILL BE TAKEN AWAY";
-    ctx.font = "bold 28px Arial";
-    ctx.fillStyle = "darkred";
-    ctx.textAlign = "center";
-    ctx.fillText(text, canvas.width / 2, 40);
-  }
-
   return (
     <div className="relative flex flex-col items-center justify-center min-h-screen px-4 py-8 bg-gradient-to-b from-black to-zinc-900 text-white overflow-hidden">
       {/* Header section with logo and course code */}
@@ -353,7 +897,7 @@ export default function Home() {
           className="flex items-center"
         >
           <img
-            src="/koc-logo.png"
+            src={withBasePath("/koc-logo.png")}
             alt="Koç University Logo"
             className="h-16 md:h-20 w-auto"
           />
@@ -404,6 +948,8 @@ export default function Home() {
             </CardDescription>
           </CardHeader>
           <CardContent className="flex flex-col items-center space-y-6 p-6">
+            <ModelStatusPanel states={modelStates} onRetry={() => preload()} />
+
             <div className="relative w-full">
               <Input
                 type="file"
@@ -417,31 +963,195 @@ export default function Home() {
             <Button onClick={capturePhotoDirectly} className="bg-red-700 text-white hover:bg-red-800 w-full">
               Take a Photo
             </Button>
+            <input
+              ref={captureInputRef}
+              type="file"
+              accept="image/*"
+              capture="user"
+              onChange={handleImageUpload}
+              className="hidden"
+            />
+
+            <div className="w-full flex items-center justify-between gap-4">
+              <Label htmlFor="mask-style" className="text-sm text-gray-300 whitespace-nowrap">
+                Mask style
+              </Label>
+              <Select value={maskStyleId} onValueChange={handleStyleChange}>
+                <SelectTrigger id="mask-style" className="w-48 bg-zinc-800 border-zinc-700">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MASK_STYLES.map(style => (
+                    <SelectItem key={style.id} value={style.id}>
+                      {style.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="w-full flex items-center justify-between gap-4">
+              <Label htmlFor="hairline-search" className="text-sm text-gray-300">
+                Stop mask at hairline
+              </Label>
+              <Switch
+                id="hairline-search"
+                checked={hairlineSearch}
+                onCheckedChange={handleHairlineSearchChange}
+                className="data-[state=checked]:bg-red-700 data-[state=unchecked]:bg-zinc-700"
+              />
+            </div>
+
+            <FeatureMaskSettingsPanel
+              config={featureConfig}
+              onChange={setFeatureConfig}
+              onCommit={handleFeatureConfigCommit}
+              disabled={isLoading}
+            />
+
+            <div className="w-full flex items-center justify-between gap-4">
+              <Label htmlFor="verify-landmarks" className="text-sm text-gray-300">
+                Also check for facial landmarks after masking
+              </Label>
+              <Switch
+                id="verify-landmarks"
+                checked={verifyLandmarks}
+                onCheckedChange={handleVerifyLandmarksChange}
+                className="data-[state=checked]:bg-red-700 data-[state=unchecked]:bg-zinc-700"
+              />
+            </div>
+
+            <RecognitionSettingsPanel
+              settings={recognitionSettings}
+              onChange={setRecognitionSettings}
+              onCommit={handleRecognitionCommit}
+              enrolled={enrolledFaces}
+              onEnrol={enrolFace}
+              onRemove={removeEnrolledFace}
+              disabled={isLoading}
+            />
+
+            <DetectorSettingsPanel
+              settings={detectorSettings}
+              onChange={setDetectorSettings}
+              onCommit={(detector) => commitSettings({ detector })}
+              onRedetect={image ? () => redetectFaces() : undefined}
+              disabled={isLoading}
+            />
+
+            {image && (
+              <>
+                <Button
+                  onClick={() => landmarkInputRef.current?.click()}
+                  disabled={isLoading}
+                  className="w-full bg-zinc-800 text-white hover:bg-zinc-700"
+                >
+                  Import landmarks (JSON)
+                </Button>
+                <input
+                  ref={landmarkInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  onChange={handleLandmarkImport}
+                  className="hidden"
+                />
+              </>
+            )}
             
             <div className="w-full flex items-center justify-center relative min-h-64 border border-dashed border-zinc-700 rounded-lg p-4">
               {image ? (
                 isLoading ? (
                   <div className="flex flex-col items-center justify-center space-y-3">
                     <div className="w-8 h-8 border-2 border-red-600 border-t-transparent rounded-full animate-spin"></div>
-                    <p className="text-sm text-gray-400">Processing your image...</p>
+                    <p className="text-sm text-gray-400">
+                      {processingStage ? PROCESSING_MESSAGES[processingStage] : 'Processing your image...'}
+                    </p>
                   </div>
-                ) : maskedImage ? (
-                  <div className="relative">
-                    <img 
-                      src={maskedImage} 
-                      alt="Monochrome Masked Face" 
-                      className="border border-zinc-800 rounded-md shadow-lg max-h-96 object-contain" 
+                ) : layerSources ? (
+                  // Drag pans only while no tool is using the pointer
+                  <ImageViewport
+                    width={layerSources.original.width}
+                    height={layerSources.original.height}
+                    panEnabled={!brushing && !editingLandmarks}
+                    minimap={previewCanvas}
+                    minimapRevision={previewRevision}
+                  >
+                    <LayerPreview
+                      sources={layerSources}
+                      stack={layers}
+                      label="Monochrome Masked Face"
+                      className="block h-full w-full"
+                      onRender={handlePreviewRender}
                     />
-                    <canvas
-                      ref={overlayCanvasRef}
-                      style={{
-                        position: 'absolute',
-                        top: 0,
-                        left: 0,
-                        zIndex: 1,
-                        pointerEvents: 'none'
-                      }}
+                    <BrushCanvas
+                      width={layerSources.original.width}
+                      height={layerSources.original.height}
+                      strokes={strokes}
+                      tool={brushSettings.tool}
+                      size={brushSettings.size}
+                      color={brushColor(brushSettings, skinColor)}
+                      softness={brushSettings.softness}
+                      original={layerSources.original}
+                      active={brushing}
+                      onStroke={addStroke}
                     />
+                    {editingLandmarks && (
+                      <LandmarkEditor
+                        width={layerSources.original.width}
+                        height={layerSources.original.height}
+                        faces={draftLandmarks ?? faces.map(face => face.detection.landmarks)}
+                        onChange={handleLandmarkDrag}
+                        onCommit={handleLandmarkDrop}
+                      />
+                    )}
+                  </ImageViewport>
+                ) : detectionFailed && sourceImageRef.current ? (
+                  <div className="w-full flex flex-col items-center space-y-3">
+                    <p className="text-sm text-amber-400 text-center">
+                      No face was found. Mark it yourself and it will be masked anyway.
+                    </p>
+                    <div className="flex flex-wrap items-center justify-center gap-3">
+                      <Select value={markerMode} onValueChange={(mode) => setMarkerMode(mode as MarkerMode)}>
+                        <SelectTrigger className="w-48 bg-zinc-800 border-zinc-700">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="box">Draw a box</SelectItem>
+                          <SelectItem value="points">Tap eyes and mouth</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Select value={manualFit} onValueChange={(fit) => setManualFit(fit as ManualFit)}>
+                        <SelectTrigger className="w-56 bg-zinc-800 border-zinc-700">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="landmark-net">Find landmarks in the area</SelectItem>
+                          <SelectItem value="template">Fit an average face</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <ImageViewport
+                      width={sourceImageRef.current.width}
+                      height={sourceImageRef.current.height}
+                      panEnabled={false}
+                      minimap={sourceImageRef.current}
+                    >
+                      <img
+                        src={image}
+                        alt="Photo to mark"
+                        className="block h-full w-full"
+                      />
+                      <FaceMarker
+                        key={markerMode}
+                        width={sourceImageRef.current.width}
+                        height={sourceImageRef.current.height}
+                        mode={markerMode}
+                        onSelect={handleManualSelect}
+                      />
+                    </ImageViewport>
+                    <p className="text-xs text-gray-500 text-center">
+                      If the landmarks land in the wrong place, fit an average face and adjust it with Edit landmarks.
+                    </p>
                   </div>
                 ) : (
                   <div className="text-red-500 flex items-center">
@@ -460,6 +1170,144 @@ export default function Home() {
                 </div>
               )}
             </div>
+            {maskedImage && faces.length > 0 && (
+              <div className="w-full space-y-3">
+                <div className="flex items-center justify-between gap-4">
+                  <p className="text-sm text-gray-400">
+                    {maskedFaceCount} of {faces.length} {faces.length === 1 ? 'face' : 'faces'} masked
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      onClick={history.undo}
+                      disabled={!history.canUndo || isLoading || isRendering}
+                      title="Undo (Ctrl+Z)"
+                      className="h-8 bg-zinc-800 px-3 text-xs text-white hover:bg-zinc-700 disabled:text-zinc-500"
+                    >
+                      <Undo2 className="h-4 w-4" />
+                      Undo
+                    </Button>
+                    <Button
+                      onClick={history.redo}
+                      disabled={!history.canRedo || isLoading || isRendering}
+                      title="Redo (Ctrl+Shift+Z)"
+                      className="h-8 bg-zinc-800 px-3 text-xs text-white hover:bg-zinc-700 disabled:text-zinc-500"
+                    >
+                      <Redo2 className="h-4 w-4" />
+                      Redo
+                    </Button>
+                  </div>
+                </div>
+                {verification && (
+                  <p className={`text-sm ${verification.passed ? 'text-gray-400' : 'text-red-400'}`}>
+                    Anonymisation score: {Math.round(verification.anonymisationScore * 100)}%
+                    {verification.passed
+                      ? ''
+                      : ` — ${verification.faces
+                          .map((result, index) => (result?.recognisable ? `face ${index + 1}` : null))
+                          .filter(Boolean)
+                          .join(', ')} can still be detected. Try another mask style or touch up the face before sharing.`}
+                  </p>
+                )}
+                {!verification && strokes.some(stroke => stroke.tool === 'restore') && (
+                  <p className="text-sm text-gray-400">
+                    Restored areas are checked for recognisable faces when you share.
+                  </p>
+                )}
+                {unreliableSkinFaces.map(({ face, index }) => (
+                  <p key={index} className="text-xs text-amber-400">
+                    {faces.length > 1 ? `Face ${index + 1}: ` : ''}the skin tone estimate looks unreliable
+                    ({Math.round(face.skinConfidence * 100)}% confidence). Try a photo with more even lighting.
+                  </p>
+                ))}
+                <div className="flex items-center justify-between gap-4">
+                  <Label htmlFor="edit-landmarks" className="text-sm text-gray-300">
+                    Edit landmarks
+                  </Label>
+                  <div className="flex items-center gap-3">
+                    {editingLandmarks && (
+                      <Button
+                        onClick={resetLandmarks}
+                        className="h-8 bg-zinc-800 px-3 text-xs text-white hover:bg-zinc-700"
+                      >
+                        Reset to detected
+                      </Button>
+                    )}
+                    <Switch
+                      id="edit-landmarks"
+                      checked={editingLandmarks}
+                      onCheckedChange={handleEditLandmarksChange}
+                      className="data-[state=checked]:bg-red-700 data-[state=unchecked]:bg-zinc-700"
+                    />
+                  </div>
+                </div>
+                {editingLandmarks && (
+                  <p className="text-xs text-gray-500">
+                    Drag the points onto the jaw, brows, eyes, nose and mouth. The mask follows as you move them.
+                  </p>
+                )}
+                <div className="flex items-center justify-between gap-4">
+                  <Label htmlFor="brushing" className="text-sm text-gray-300">
+                    Touch up with a brush
+                  </Label>
+                  <div className="flex items-center gap-3">
+                    {strokes.length > 0 && (
+                      <Button
+                        onClick={clearStrokes}
+                        className="h-8 bg-zinc-800 px-3 text-xs text-white hover:bg-zinc-700"
+                      >
+                        Clear strokes
+                      </Button>
+                    )}
+                    <Switch
+                      id="brushing"
+                      checked={brushing}
+                      onCheckedChange={handleBrushingChange}
+                      className="data-[state=checked]:bg-red-700 data-[state=unchecked]:bg-zinc-700"
+                    />
+                  </div>
+                </div>
+                {brushing && (
+                  <BrushSettingsPanel
+                    settings={brushSettings}
+                    onChange={setBrushSettings}
+                    onCommit={(brush) => commitSettings({ brush })}
+                    color={brushColor(brushSettings, skinColor)}
+                  />
+                )}
+                <LayerPanel stack={layers} onChange={setLayers} onCommit={handleLayersCommit} />
+                {maskLayerIncomplete && (
+                  <p className="text-xs text-red-400">
+                    Show the face mask layer at full opacity to download or share the photo.
+                  </p>
+                )}
+                {faces.length > 1 && (
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                    {faces.map((face, index) => (
+                      <div
+                        key={index}
+                        className="flex items-center justify-between rounded-md border border-zinc-800 bg-zinc-800/50 px-3 py-2"
+                      >
+                        <Label htmlFor={`face-${index}`} className="flex items-center gap-2 text-sm text-gray-300">
+                          <span
+                            className="inline-block h-3 w-3 rounded-full border border-zinc-600"
+                            style={{ backgroundColor: face.skinColor }}
+                            title={`Skin tone, ${Math.round(face.skinConfidence * 100)}% confidence`}
+                          />
+                          Face {index + 1}
+                          {face.match && <span className="text-xs text-gray-500">· {face.match.name}</span>}
+                        </Label>
+                        <Switch
+                          id={`face-${index}`}
+                          checked={face.enabled}
+                          onCheckedChange={(checked) => toggleFace(index, checked)}
+                          className="data-[state=checked]:bg-red-700 data-[state=unchecked]:bg-zinc-700"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
             {uploadProgress !== null && (
               <div className="w-full bg-zinc-700 rounded-full overflow-hidden">
                 <div
@@ -471,23 +1319,51 @@ export default function Home() {
             <div className="flex flex-col md:flex-row space-y-2 md:space-y-0 md:space-x-4 w-full">
               <Button
                 onClick={handleDownload}
-                disabled={!maskedImage}
+                disabled={!maskedImage || maskLayerIncomplete}
                 className="bg-red-800 text-white hover:bg-red-900 transition-all disabled:bg-zinc-800 disabled:text-zinc-500 w-full md:w-auto px-8"
               >
                 Download
               </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    disabled={!maskedImage || faces.length === 0}
+                    className="bg-zinc-800 text-white hover:bg-zinc-700 transition-all disabled:text-zinc-500 w-full md:w-auto px-8"
+                  >
+                    More exports
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent className="bg-zinc-900 border-zinc-800 text-gray-200">
+                  {LAYER_EXPORTS.map(({ kind, label }) => (
+                    <DropdownMenuItem key={kind} onSelect={() => handleLayerExport(kind)} disabled={maskedFaceCount === 0}>
+                      {label}
+                    </DropdownMenuItem>
+                  ))}
+                  <DropdownMenuItem onSelect={handleLandmarkExport}>
+                    Landmarks (JSON)
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
               <Button
                 onClick={handleShare}
-                disabled={!maskedImage}
+                disabled={!maskedImage || stillRecognisable || maskLayerIncomplete || checkingShare}
                 className="bg-red-800 text-white hover:bg-red-900 transition-all disabled:bg-zinc-800 disabled:text-zinc-500 w-full md:w-auto px-8"
               >
-                Be Part of the Image
+                {checkingShare ? "Checking..." : "Be Part of the Image"}
               </Button>
             </div>
           </CardContent>
         </Card>
       </div>
 
+      <PrivacyReportDialog
+        report={pendingExport?.report ?? null}
+        open={pendingExport !== null}
+        onOpenChange={(open) => { if (!open) setPendingExport(null); }}
+        onConfirm={confirmExport}
+        confirmLabel={pendingExport?.action === 'download' ? "Download" : "Share"}
+      />
+
       {/* Ambient quotes */}
       <motion.div
         animate={{ y: [0, -10, 0] }}
@@ -523,14 +1399,3 @@ export default function Home() {
     </div>
   );
 }
-
-function drawOverlayText(canvas: HTMLCanvasElement) {
-  const ctx = canvas.getContext('2d');
-  if (!ctx) return;
-
-  const text = "EVERYTHING WILL BE TAKEN AWAY";
-  ctx.font = "bold 28px Arial";
-  ctx.fillStyle = "darkred";
-  ctx.textAlign = "center";
-  ctx.fillText(text, canvas.width / 2, 40);
-}
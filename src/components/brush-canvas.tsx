@@ -0,0 +1,125 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { traceStroke, type BrushStroke, type BrushTool, type StrokePoint } from "@/lib/brush";
+import { clampToImage, elementPointToImage } from "@/lib/pointer";
+import { useViewportMapping } from "@/components/image-viewport";
+
+interface BrushCanvasProps {
+  // Image size in pixels; the canvas is stretched over the displayed image
+  width: number;
+  height: number;
+  // Finished strokes, drawn by the layer preview underneath
+  strokes: BrushStroke[];
+  // The next stroke: tool, diameter in CSS pixels, paint colour and restore softness
+  tool: BrushTool;
+  size: number;
+  color: string;
+  softness: number;
+  // The unmasked photo, which restore strokes paint back
+  original: CanvasImageSource;
+  // Painting is off while another tool is in use; the strokes stay visible
+  active: boolean;
+  onStroke: (stroke: BrushStroke) => void;
+}
+
+// Touch-up brush on Pointer Events, so mouse, touch and stylus all paint; a stylus
+// also varies the width with pressure. The canvas has the image's resolution, so
+// strokes are stored in image pixels whatever size the image is shown at. It only
+// shows the stroke in progress; finished strokes belong to the strokes layer.
+export function BrushCanvas({
+  width,
+  height,
+  strokes,
+  tool,
+  size,
+  color,
+  softness,
+  original,
+  active,
+  onStroke,
+}: BrushCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const viewport = useViewportMapping();
+  // `style` paints the stroke in progress; restore strokes show the photo, hard-edged
+  // until the stroke reaches the layer and gets its soft edge
+  const strokeRef = useRef<{ pointerId: number; stroke: BrushStroke; style: string | CanvasPattern } | null>(null);
+
+  // Once a stroke has reached the layer underneath, this copy goes
+  useEffect(() => {
+    if (!strokeRef.current) canvasRef.current?.getContext('2d')?.clearRect(0, 0, width, height);
+  }, [strokes, width, height]);
+
+  const strokePoint = (e: PointerEvent | React.PointerEvent): StrokePoint | null => {
+    // Inside a zoomable viewport, pointers map through its transform
+    const canvas = canvasRef.current;
+    const mapped = viewport?.toImage(e.clientX, e.clientY);
+    const point = mapped
+      ? clampToImage(mapped, width, height)
+      : canvas && elementPointToImage(canvas, e.clientX, e.clientY, width, height);
+    if (!point) return null;
+    // Mice report 0.5 while a button is down, so only a pen's pressure is used
+    return { ...point, pressure: e.pointerType === 'pen' && e.pressure > 0 ? e.pressure : 1 };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!active || strokeRef.current || e.button !== 0) return;
+    const point = strokePoint(e);
+    const ctx = e.currentTarget.getContext('2d');
+    const style = tool === 'restore' ? ctx?.createPattern(original, 'no-repeat') : color;
+    if (!point || !ctx || !style) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+
+    // The slider sets the size on screen; scale it to image pixels
+    const scale = viewport ? 1 / viewport.scale : width / e.currentTarget.getBoundingClientRect().width;
+    const stroke: BrushStroke = tool === 'restore'
+      ? { tool, softness, size: size * scale, points: [point] }
+      : { tool, color, size: size * scale, points: [point] };
+    strokeRef.current = { pointerId: e.pointerId, stroke, style };
+    traceStroke(ctx, stroke.points, stroke.size, style);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const current = strokeRef.current;
+    const ctx = e.currentTarget.getContext('2d');
+    if (!current || e.pointerId !== current.pointerId || !ctx) return;
+
+    // Coalesced events keep fast strokes smooth where the browser batches moves
+    const events = e.nativeEvent.getCoalescedEvents?.() ?? [];
+    const points = (events.length > 0 ? events : [e.nativeEvent])
+      .map(strokePoint)
+      .filter((point): point is StrokePoint => point !== null);
+    const from = current.stroke.points.length;
+    current.stroke.points.push(...points);
+    traceStroke(ctx, current.stroke.points, current.stroke.size, current.style, from);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const current = strokeRef.current;
+    if (!current || e.pointerId !== current.pointerId) return;
+    strokeRef.current = null;
+    onStroke(current.stroke);
+  };
+
+  // E.g. a second finger turned the touch into a pinch; the stroke is dropped
+  const handlePointerCancel = (e: React.PointerEvent) => {
+    if (!strokeRef.current || e.pointerId !== strokeRef.current.pointerId) return;
+    strokeRef.current = null;
+    canvasRef.current?.getContext('2d')?.clearRect(0, 0, width, height);
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      className={`absolute inset-0 h-full w-full ${active ? 'cursor-crosshair' : 'pointer-events-none'}`}
+      style={{ zIndex: 1, touchAction: active ? 'none' : 'auto' }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerCancel}
+    />
+  );
+}
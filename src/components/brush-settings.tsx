@@ -0,0 +1,113 @@
+"use client";
+
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import {
+  BRUSH_COLOR_MODES,
+  BRUSH_SIZE_RANGE,
+  BRUSH_TOOLS,
+  SOFTNESS_RANGE,
+  type BrushColorMode,
+  type BrushSettings,
+  type BrushTool,
+} from "@/lib/brush";
+
+interface BrushSettingsPanelProps {
+  settings: BrushSettings;
+  onChange: (settings: BrushSettings) => void;
+  // Called once a change is final (e.g. on slider release), to record it for undo
+  onCommit: (settings: BrushSettings) => void;
+  // Colour the brush currently paints with, for the preview
+  color: string;
+}
+
+export function BrushSettingsPanel({ settings, onChange, onCommit, color }: BrushSettingsPanelProps) {
+  const patched = (patch: Partial<BrushSettings>) => ({ ...settings, ...patch });
+  const update = (patch: Partial<BrushSettings>) => {
+    onChange(patched(patch));
+    onCommit(patched(patch));
+  };
+
+  return (
+    <div className="w-full space-y-3 rounded-md border border-zinc-800 bg-zinc-800/50 p-3">
+      <div className="flex items-center justify-between gap-4">
+        <Label htmlFor="brush-tool" className="text-sm text-gray-300">Tool</Label>
+        <Select value={settings.tool} onValueChange={(tool) => update({ tool: tool as BrushTool })}>
+          <SelectTrigger id="brush-tool" className="w-36 bg-zinc-800 border-zinc-700">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {BRUSH_TOOLS.map(tool => (
+              <SelectItem key={tool.id} value={tool.id}>{tool.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex items-center gap-3">
+        <span className="w-12 text-xs text-gray-500">Size</span>
+        <Slider
+          min={BRUSH_SIZE_RANGE.min}
+          max={BRUSH_SIZE_RANGE.max}
+          step={BRUSH_SIZE_RANGE.step}
+          value={[settings.size]}
+          onValueChange={([size]) => onChange(patched({ size }))}
+          onValueCommit={([size]) => onCommit(patched({ size }))}
+        />
+        <span className="w-10 text-right text-xs text-gray-500">{settings.size}px</span>
+      </div>
+      {settings.tool === 'restore' ? (
+        <>
+          <p className="text-xs text-gray-500">
+            Paints the original photo back where the mask spilled onto hair, a hand or the background.
+          </p>
+          <div className="flex items-center gap-3">
+            <span className="w-12 text-xs text-gray-500">Soft</span>
+            <Slider
+              min={SOFTNESS_RANGE.min}
+              max={SOFTNESS_RANGE.max}
+              step={SOFTNESS_RANGE.step}
+              value={[settings.softness]}
+              onValueChange={([softness]) => onChange(patched({ softness }))}
+              onValueCommit={([softness]) => onCommit(patched({ softness }))}
+            />
+            <span className="w-10 text-right text-xs text-gray-500">{Math.round(settings.softness * 100)}%</span>
+          </div>
+        </>
+      ) : (
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="brush-color" className="flex items-center gap-2 text-sm text-gray-300">
+            <span
+              className="inline-block h-4 w-4 rounded-full border border-zinc-600"
+              style={{ backgroundColor: color }}
+            />
+            Colour
+          </Label>
+          <div className="flex items-center gap-3">
+            {settings.colorMode === 'custom' && (
+              <input
+                type="color"
+                value={settings.customColor}
+                onChange={(e) => onChange(patched({ customColor: e.target.value }))}
+                // The picker reports every colour passed over; only the one it closes on is kept
+                onBlur={(e) => onCommit(patched({ customColor: e.target.value }))}
+                aria-label="Custom brush colour"
+                className="h-8 w-10 cursor-pointer rounded border border-zinc-700 bg-zinc-800"
+              />
+            )}
+            <Select value={settings.colorMode} onValueChange={(mode) => update({ colorMode: mode as BrushColorMode })}>
+              <SelectTrigger id="brush-color" className="w-36 bg-zinc-800 border-zinc-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BRUSH_COLOR_MODES.map(mode => (
+                  <SelectItem key={mode.id} value={mode.id}>{mode.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { DETECTION_SIZE_RANGE, TINY_INPUT_SIZES, type DetectorBackend, type DetectorSettings, type LandmarkModel } from "@/lib/face-detector";
+
+interface DetectorSettingsPanelProps {
+  settings: DetectorSettings;
+  onChange: (settings: DetectorSettings) => void;
+  // Called once a change is final (e.g. on slider release), to record it for undo
+  onCommit: (settings: DetectorSettings) => void;
+  // Re-runs detection on the current photo with the new settings
+  onRedetect?: () => void;
+  disabled?: boolean;
+}
+
+export function DetectorSettingsPanel({ settings, onChange, onCommit, onRedetect, disabled }: DetectorSettingsPanelProps) {
+  const patched = (patch: Partial<DetectorSettings>) => ({ ...settings, ...patch });
+  const update = (patch: Partial<DetectorSettings>) => {
+    onChange(patched(patch));
+    onCommit(patched(patch));
+  };
+  const inputSizeIndex = Math.max(0, TINY_INPUT_SIZES.indexOf(settings.inputSize));
+
+  return (
+    <Accordion type="single" collapsible className="w-full">
+      <AccordionItem value="detector" className="border-zinc-800">
+        <AccordionTrigger className="text-sm text-gray-300 hover:no-underline">
+          Advanced detection settings
+        </AccordionTrigger>
+        <AccordionContent className="space-y-5 pt-2">
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="detector-backend" className="text-sm text-gray-300">Detector</Label>
+            <Select
+              value={settings.backend}
+              onValueChange={(backend) => update({ backend: backend as DetectorBackend })}
+              disabled={disabled}
+            >
+              <SelectTrigger id="detector-backend" className="w-56 bg-zinc-800 border-zinc-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="tiny">Fast (Tiny Face Detector)</SelectItem>
+                <SelectItem value="ssd">Accurate (SSD MobileNet v1)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="landmark-model" className="text-sm text-gray-300">Landmarks</Label>
+            <Select
+              value={settings.landmarkModel}
+              onValueChange={(landmarkModel) => update({ landmarkModel: landmarkModel as LandmarkModel })}
+              disabled={disabled}
+            >
+              <SelectTrigger id="landmark-model" className="w-56 bg-zinc-800 border-zinc-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="full">Precise (68 points)</SelectItem>
+                <SelectItem value="tiny">Fast (68 points, tiny model)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {settings.backend === 'tiny' && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm text-gray-300">
+                <span>Input size</span>
+                <span className="text-gray-500">{settings.inputSize}px</span>
+              </div>
+              <Slider
+                min={0}
+                max={TINY_INPUT_SIZES.length - 1}
+                step={1}
+                value={[inputSizeIndex]}
+                onValueChange={([index]) => onChange(patched({ inputSize: TINY_INPUT_SIZES[index] }))}
+                onValueCommit={([index]) => onCommit(patched({ inputSize: TINY_INPUT_SIZES[index] }))}
+                disabled={disabled}
+              />
+              <p className="text-xs text-gray-500">Larger sizes find smaller faces but take longer.</p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm text-gray-300">
+              <span>Score threshold</span>
+              <span className="text-gray-500">{settings.scoreThreshold.toFixed(2)}</span>
+            </div>
+            <Slider
+              min={0.05}
+              max={0.95}
+              step={0.05}
+              value={[settings.scoreThreshold]}
+              onValueChange={([scoreThreshold]) => onChange(patched({ scoreThreshold }))}
+              onValueCommit={([scoreThreshold]) => onCommit(patched({ scoreThreshold }))}
+              disabled={disabled}
+            />
+            <p className="text-xs text-gray-500">Lower it for tilted, small or dim faces.</p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm text-gray-300">
+              <span>Max detection resolution</span>
+              <span className="text-gray-500">{settings.maxDetectionSize}px</span>
+            </div>
+            <Slider
+              min={DETECTION_SIZE_RANGE.min}
+              max={DETECTION_SIZE_RANGE.max}
+              step={DETECTION_SIZE_RANGE.step}
+              value={[settings.maxDetectionSize]}
+              onValueChange={([maxDetectionSize]) => onChange(patched({ maxDetectionSize }))}
+              onValueCommit={([maxDetectionSize]) => onCommit(patched({ maxDetectionSize }))}
+              disabled={disabled}
+            />
+            <p className="text-xs text-gray-500">
+              Large photos are scaled down to this size to find faces. The mask is still applied at full resolution.
+            </p>
+          </div>
+
+          {onRedetect && (
+            <Button
+              onClick={onRedetect}
+              disabled={disabled}
+              className="w-full bg-zinc-800 text-white hover:bg-zinc-700"
+            >
+              Detect faces again
+            </Button>
+          )}
+        </AccordionContent>
+      </AccordionItem>
+    </Accordion>
+  );
+}
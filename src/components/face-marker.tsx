@@ -0,0 +1,123 @@
+"use client";
+
+import { useRef, useState } from "react";
+import type { Bounds, Point } from "@/lib/geometry";
+import type { ManualFaceSelection } from "@/lib/manual-face";
+import { clampToImage, svgPointToImage } from "@/lib/pointer";
+import { useViewportMapping } from "@/components/image-viewport";
+
+export type MarkerMode = 'box' | 'points';
+
+// Boxes smaller than this (in image pixels) are treated as stray taps
+const MIN_BOX_SIZE = 12;
+
+// Tap marker radius in screen pixels when inside a zoomable viewport
+const MARKER_RADIUS = 5;
+
+const TAP_PROMPTS = ['Tap one eye', 'Tap the other eye', 'Tap the centre of the mouth'];
+
+interface FaceMarkerProps {
+  // Image size in pixels; the marker is stretched over the displayed image
+  width: number;
+  height: number;
+  mode: MarkerMode;
+  onSelect: (selection: ManualFaceSelection) => void;
+}
+
+const boxBetween = (a: Point, b: Point): Bounds => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  width: Math.abs(a.x - b.x),
+  height: Math.abs(a.y - b.y),
+});
+
+// Lets the user mark a face the detector missed, by dragging a box or tapping both eyes
+// and the mouth. Pointer events, so mouse, touch and pen all work.
+export function FaceMarker({ width, height, mode, onSelect }: FaceMarkerProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragStart, setDragStart] = useState<Point | null>(null);
+  const [dragEnd, setDragEnd] = useState<Point | null>(null);
+  const [taps, setTaps] = useState<Point[]>([]);
+
+  const viewport = useViewportMapping();
+
+  const radius = viewport ? MARKER_RADIUS / viewport.scale : Math.max(width, height) / 120;
+  const toImage = (e: React.PointerEvent) => {
+    const mapped = viewport?.toImage(e.clientX, e.clientY);
+    if (mapped) return clampToImage(mapped, width, height);
+    return svgRef.current && svgPointToImage(svgRef.current, e.clientX, e.clientY, width, height);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    const point = toImage(e);
+    if (!point) return;
+    e.preventDefault();
+
+    if (mode === 'points') {
+      const next = [...taps, point];
+      if (next.length < 3) {
+        setTaps(next);
+        return;
+      }
+      setTaps([]);
+      onSelect({ kind: 'points', eyes: [next[0], next[1]], mouth: next[2] });
+      return;
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragStart(point);
+    setDragEnd(point);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragStart) return;
+    const point = toImage(e);
+    if (point) setDragEnd(point);
+  };
+
+  const handlePointerUp = () => {
+    if (!dragStart || !dragEnd) return;
+    const box = boxBetween(dragStart, dragEnd);
+    setDragStart(null);
+    setDragEnd(null);
+    if (box.width >= MIN_BOX_SIZE && box.height >= MIN_BOX_SIZE) onSelect({ kind: 'box', box });
+  };
+
+  const box = dragStart && dragEnd ? boxBetween(dragStart, dragEnd) : null;
+
+  return (
+    <>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${width} ${height}`}
+        preserveAspectRatio="none"
+        className="absolute inset-0 h-full w-full cursor-crosshair"
+        style={{ zIndex: 2, touchAction: 'none' }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {box && (
+          <rect
+            {...box}
+            fill="rgba(185, 28, 28, 0.15)"
+            stroke="#dc2626"
+            strokeWidth={radius / 2}
+            strokeDasharray={`${radius * 2} ${radius}`}
+          />
+        )}
+        {taps.map((p, i) => (
+          <circle key={i} cx={p.x} cy={p.y} r={radius} fill="#dc2626" stroke="#fff" strokeWidth={radius / 3} />
+        ))}
+      </svg>
+      {/* Zoomed along with the image otherwise, so it is scaled back to screen size */}
+      <p
+        className="pointer-events-none absolute left-2 top-2 whitespace-nowrap rounded bg-black/70 px-2 py-1 text-xs text-gray-200"
+        style={{ zIndex: 3, transform: viewport ? `scale(${1 / viewport.scale})` : undefined, transformOrigin: '0 0' }}
+      >
+        {mode === 'box' ? 'Drag a box around the face' : TAP_PROMPTS[taps.length]}
+      </p>
+    </>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import {
+  EXPANSION_RANGE,
+  FEATURE_FILLS,
+  FEATURE_IDS,
+  FEATURE_LABELS,
+  type FeatureFill,
+  type FeatureId,
+  type FeatureMaskConfig,
+  type FeatureSettings,
+} from "@/lib/masking";
+
+interface FeatureMaskSettingsPanelProps {
+  config: FeatureMaskConfig;
+  onChange: (config: FeatureMaskConfig) => void;
+  // Called once a change is final (e.g. on slider release), to re-render the mask
+  onCommit: (config: FeatureMaskConfig) => void;
+  disabled?: boolean;
+}
+
+export function FeatureMaskSettingsPanel({ config, onChange, onCommit, disabled }: FeatureMaskSettingsPanelProps) {
+  const patched = (feature: FeatureId, patch: Partial<FeatureSettings>) =>
+    ({ ...config, [feature]: { ...config[feature], ...patch } });
+  const update = (feature: FeatureId, patch: Partial<FeatureSettings>) => {
+    const next = patched(feature, patch);
+    onChange(next);
+    onCommit(next);
+  };
+
+  return (
+    <Accordion type="single" collapsible className="w-full">
+      <AccordionItem value="features" className="border-zinc-800">
+        <AccordionTrigger className="text-sm text-gray-300 hover:no-underline">
+          Erased features
+        </AccordionTrigger>
+        <AccordionContent className="space-y-5 pt-2">
+          <p className="text-xs text-gray-500">
+            Applied on top of the chosen style.
+          </p>
+          {FEATURE_IDS.map(feature => {
+            const settings = config[feature];
+            return (
+              <div key={feature} className="space-y-2">
+                <div className="flex items-center justify-between gap-4">
+                  <Label htmlFor={`feature-${feature}`} className="text-sm text-gray-300">
+                    {FEATURE_LABELS[feature]}
+                  </Label>
+                  <div className="flex items-center gap-3">
+                    <Select
+                      value={settings.fill}
+                      onValueChange={(fill) => update(feature, { fill: fill as FeatureFill })}
+                      disabled={disabled || !settings.enabled}
+                    >
+                      <SelectTrigger className="w-36 bg-zinc-800 border-zinc-700">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {FEATURE_FILLS.map(fill => (
+                          <SelectItem key={fill.id} value={fill.id}>{fill.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Switch
+                      id={`feature-${feature}`}
+                      checked={settings.enabled}
+                      onCheckedChange={(enabled) => update(feature, { enabled })}
+                      disabled={disabled}
+                      className="data-[state=checked]:bg-red-700 data-[state=unchecked]:bg-zinc-700"
+                    />
+                  </div>
+                </div>
+                {settings.enabled && (
+                  <div className="flex items-center gap-3">
+                    <span className="w-20 text-xs text-gray-500">Expansion</span>
+                    <Slider
+                      min={EXPANSION_RANGE.min}
+                      max={EXPANSION_RANGE.max}
+                      step={EXPANSION_RANGE.step}
+                      value={[settings.expansion]}
+                      onValueChange={([expansion]) => onChange(patched(feature, { expansion }))}
+                      onValueCommit={([expansion]) => onCommit(patched(feature, { expansion }))}
+                      disabled={disabled}
+                    />
+                    <span className="w-10 text-right text-xs text-gray-500">×{settings.expansion.toFixed(1)}</span>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </AccordionContent>
+      </AccordionItem>
+    </Accordion>
+  );
+}
@@ -0,0 +1,356 @@
+"use client";
+
+import { createContext, useContext, useEffect, useRef, useState } from "react";
+import { Minus, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { Point } from "@/lib/geometry";
+import {
+  centreOn,
+  fitViewport,
+  panBy,
+  visibleImageRect,
+  zoomAt,
+  type Size,
+  type Viewport,
+} from "@/lib/viewport";
+
+interface ViewportMapping {
+  // Screen pixels per image pixel
+  scale: number;
+  // Maps a pointer position to image pixels through the zoom and pan; not clamped
+  toImage: (clientX: number, clientY: number) => Point | null;
+}
+
+const ViewportContext = createContext<ViewportMapping | null>(null);
+
+// Lets an editing tool inside an ImageViewport map pointers through its transform.
+// Null outside a viewport.
+export function useViewportMapping(): ViewportMapping | null {
+  return useContext(ViewportContext);
+}
+
+const ZOOM_STEP = 1.5;
+const MINIMAP_WIDTH = 120;
+
+// Wheel deltas to zoom factors; trackpad pinches arrive as ctrl+wheel with small deltas
+const WHEEL_ZOOM_SPEED = 0.0015;
+const PINCH_WHEEL_ZOOM_SPEED = 0.01;
+
+type Gesture =
+  | { kind: 'pan'; pointerId: number; last: Point }
+  | { kind: 'pinch'; distance: number; centre: Point };
+
+interface ImageViewportProps {
+  // Image size in pixels; children are laid out at this size and fill it
+  width: number;
+  height: number;
+  // Dragging with one pointer pans. Off while a tool needs the pointer; the middle mouse
+  // button and two fingers always pan.
+  panEnabled: boolean;
+  // Drawn small in the minimap while zoomed in
+  minimap: CanvasImageSource | null;
+  // Bump when the minimap source is redrawn in place, e.g. a preview canvas
+  minimapRevision?: number;
+  children: React.ReactNode;
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+// Zoom and pan around an image: wheel and pinch zoom, drag to pan, fit and 100% buttons
+// and a minimap. Children (the picture and the editing tools over it) are transformed
+// together, and tools map pointers back to image pixels via useViewportMapping.
+export function ImageViewport({ width, height, panEnabled, minimap, minimapRevision, children }: ImageViewportProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [view, setView] = useState<Size | null>(null);
+  const [viewport, setViewport] = useState<Viewport | null>(null);
+  // While true the image is refitted when the view resizes
+  const fittedRef = useRef(true);
+  const touchesRef = useRef(new Map<number, { point: Point; target: EventTarget | null }>());
+  const gestureRef = useRef<Gesture | null>(null);
+
+  const image: Size = { width, height };
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => {
+      setView({ width: container.clientWidth, height: container.clientHeight });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    fittedRef.current = true;
+  }, [width, height]);
+
+  useEffect(() => {
+    if (view && (fittedRef.current || !viewport)) setViewport(fitViewport({ width, height }, view));
+  }, [view, width, height]);
+
+  // Container-relative point, inside the border the transformed layer is positioned from
+  const toView = (clientX: number, clientY: number): Point | null => {
+    const container = containerRef.current;
+    if (!container) return null;
+    const rect = container.getBoundingClientRect();
+    return { x: clientX - rect.left - container.clientLeft, y: clientY - rect.top - container.clientTop };
+  };
+
+  const update = (change: (current: Viewport, view: Size) => Viewport) => {
+    if (!view) return;
+    fittedRef.current = false;
+    setViewport(current => (current ? change(current, view) : current));
+  };
+
+  const zoomBy = (factor: number, anchor?: Point) =>
+    update((current, view) =>
+      zoomAt(current, factor, anchor ?? { x: view.width / 2, y: view.height / 2 }, image, view)
+    );
+
+  const fit = () => {
+    if (!view) return;
+    fittedRef.current = true;
+    setViewport(fitViewport(image, view));
+  };
+
+  const actualSize = () => update((current, view) => zoomAt(current, 1 / current.scale, { x: view.width / 2, y: view.height / 2 }, image, view));
+
+  // React's wheel listener is passive, so the page would scroll as well as zoom
+  const wheelRef = useRef<(e: WheelEvent) => void>(() => {});
+  wheelRef.current = (e: WheelEvent) => {
+    const anchor = toView(e.clientX, e.clientY);
+    if (!anchor) return;
+    e.preventDefault();
+    const speed = e.ctrlKey ? PINCH_WHEEL_ZOOM_SPEED : WHEEL_ZOOM_SPEED;
+    zoomBy(Math.exp(-e.deltaY * speed), anchor);
+  };
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => wheelRef.current(e);
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const startPan = (e: React.PointerEvent<HTMLDivElement>) => {
+    const point = toView(e.clientX, e.clientY);
+    if (!point) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    gestureRef.current = { kind: 'pan', pointerId: e.pointerId, last: point };
+  };
+
+  // Gestures are handled in the capture phase, before the tools see the pointer. The
+  // synthetic pointercancel sent to a tool below is not trusted and passes through.
+  const handlePointerDownCapture = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!e.isTrusted) return;
+
+    if (e.button === 1) {
+      e.stopPropagation();
+      startPan(e);
+      return;
+    }
+    if (e.pointerType !== 'touch') return;
+
+    const point = toView(e.clientX, e.clientY);
+    if (!point) return;
+    const touches = touchesRef.current;
+    touches.set(e.pointerId, { point, target: e.target });
+    if (touches.size !== 2) return;
+
+    // A second finger turns the touch into a pinch; the tool the first finger started on
+    // is told its pointer was cancelled, so a stroke or drag isn't left half done
+    e.stopPropagation();
+    for (const [pointerId, { target }] of touches) {
+      if (pointerId === e.pointerId || !(target instanceof Element)) continue;
+      if (target.hasPointerCapture(pointerId)) target.releasePointerCapture(pointerId);
+      target.dispatchEvent(new PointerEvent('pointercancel', { pointerId, pointerType: 'touch', bubbles: true }));
+    }
+    const [a, b] = [...touches.values()].map(touch => touch.point);
+    gestureRef.current = { kind: 'pinch', distance: distance(a, b), centre: midpoint(a, b) };
+  };
+
+  const handlePointerMoveCapture = (e: React.PointerEvent<HTMLDivElement>) => {
+    const gesture = gestureRef.current;
+    const point = toView(e.clientX, e.clientY);
+    if (!gesture || !point) return;
+
+    if (gesture.kind === 'pan') {
+      if (e.pointerId !== gesture.pointerId) return;
+      e.stopPropagation();
+      const { last } = gesture;
+      gesture.last = point;
+      update((current, view) => panBy(current, point.x - last.x, point.y - last.y, image, view));
+      return;
+    }
+
+    const touches = touchesRef.current;
+    const touch = touches.get(e.pointerId);
+    if (!touch) return;
+    e.stopPropagation();
+    touch.point = point;
+    const [a, b] = [...touches.values()].map(t => t.point);
+    const next = { distance: distance(a, b), centre: midpoint(a, b) };
+    const { distance: previousDistance, centre: previousCentre } = gesture;
+    gestureRef.current = { kind: 'pinch', ...next };
+    update((current, view) => {
+      const zoomed = zoomAt(current, next.distance / Math.max(1, previousDistance), next.centre, image, view);
+      return panBy(zoomed, next.centre.x - previousCentre.x, next.centre.y - previousCentre.y, image, view);
+    });
+  };
+
+  const handlePointerUpCapture = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!e.isTrusted) return;
+    const gesture = gestureRef.current;
+    const touches = touchesRef.current;
+    const wasTouch = touches.delete(e.pointerId);
+
+    if (gesture?.kind === 'pan' && e.pointerId === gesture.pointerId) {
+      e.stopPropagation();
+      gestureRef.current = null;
+    } else if (gesture?.kind === 'pinch' && wasTouch) {
+      // The finger left on the screen doesn't start anything until it is lifted too
+      e.stopPropagation();
+      if (touches.size < 2) gestureRef.current = null;
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (panEnabled && e.button === 0 && !gestureRef.current && touchesRef.current.size <= 1) startPan(e);
+  };
+
+  const mapping: ViewportMapping | null = viewport && {
+    scale: viewport.scale,
+    toImage: (clientX, clientY) => {
+      const point = toView(clientX, clientY);
+      return point && { x: (point.x - viewport.x) / viewport.scale, y: (point.y - viewport.y) / viewport.scale };
+    },
+  };
+
+  const visible = viewport && view ? visibleImageRect(viewport, image, view) : null;
+  const zoomedIn = visible !== null && (visible.width < width - 1 || visible.height < height - 1);
+
+  return (
+    <div className="w-full space-y-2">
+      <div
+        ref={containerRef}
+        className={`relative h-96 w-full overflow-hidden rounded-md border border-zinc-800 bg-black/40 ${panEnabled ? 'cursor-grab' : ''}`}
+        style={{ touchAction: 'none' }}
+        onPointerDownCapture={handlePointerDownCapture}
+        onPointerMoveCapture={handlePointerMoveCapture}
+        onPointerUpCapture={handlePointerUpCapture}
+        onPointerCancelCapture={handlePointerUpCapture}
+        onPointerDown={handlePointerDown}
+      >
+        {viewport && mapping && (
+          <div
+            className="absolute left-0 top-0"
+            style={{
+              width,
+              height,
+              transform: `translate(${viewport.x}px, ${viewport.y}px) scale(${viewport.scale})`,
+              transformOrigin: '0 0',
+            }}
+          >
+            <ViewportContext.Provider value={mapping}>{children}</ViewportContext.Provider>
+          </div>
+        )}
+        {zoomedIn && minimap && visible && viewport && view && (
+          <Minimap
+            source={minimap}
+            revision={minimapRevision}
+            image={image}
+            visible={visible}
+            onNavigate={(point) => update((current, view) => centreOn(current, point, image, view))}
+          />
+        )}
+      </div>
+      <div className="flex items-center justify-center gap-2">
+        <Button
+          onClick={() => zoomBy(1 / ZOOM_STEP)}
+          disabled={!viewport}
+          title="Zoom out"
+          className="h-8 w-8 bg-zinc-800 p-0 text-white hover:bg-zinc-700"
+        >
+          <Minus className="h-4 w-4" />
+        </Button>
+        <span className="w-14 text-center text-xs text-gray-400">
+          {viewport ? `${Math.round(viewport.scale * 100)}%` : ''}
+        </span>
+        <Button
+          onClick={() => zoomBy(ZOOM_STEP)}
+          disabled={!viewport}
+          title="Zoom in"
+          className="h-8 w-8 bg-zinc-800 p-0 text-white hover:bg-zinc-700"
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+        <Button onClick={fit} disabled={!viewport} className="h-8 bg-zinc-800 px-3 text-xs text-white hover:bg-zinc-700">
+          Fit
+        </Button>
+        <Button onClick={actualSize} disabled={!viewport} className="h-8 bg-zinc-800 px-3 text-xs text-white hover:bg-zinc-700">
+          100%
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface MinimapProps {
+  source: CanvasImageSource;
+  revision?: number;
+  image: Size;
+  // Part of the image on screen, in image pixels
+  visible: { x: number; y: number; width: number; height: number };
+  onNavigate: (point: Point) => void;
+}
+
+// Whole-image thumbnail with the visible part outlined; tap or drag it to move the view
+function Minimap({ source, revision, image, visible, onNavigate }: MinimapProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const draggingRef = useRef<number | null>(null);
+  const ratio = MINIMAP_WIDTH / image.width;
+  const minimapHeight = Math.round(image.height * ratio);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, MINIMAP_WIDTH, minimapHeight);
+    ctx.drawImage(source, 0, 0, MINIMAP_WIDTH, minimapHeight);
+  }, [source, revision, minimapHeight]);
+
+  const navigate = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onNavigate({ x: (e.clientX - rect.left) / ratio, y: (e.clientY - rect.top) / ratio });
+  };
+
+  return (
+    <div
+      className="absolute bottom-2 right-2 cursor-pointer overflow-hidden rounded border border-zinc-600 bg-black shadow-lg"
+      style={{ width: MINIMAP_WIDTH, height: minimapHeight, zIndex: 5 }}
+      onPointerDown={(e) => {
+        e.stopPropagation();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        draggingRef.current = e.pointerId;
+        navigate(e);
+      }}
+      onPointerMove={(e) => {
+        if (draggingRef.current === e.pointerId) navigate(e);
+      }}
+      onPointerUp={() => { draggingRef.current = null; }}
+      onPointerCancel={() => { draggingRef.current = null; }}
+    >
+      <canvas ref={canvasRef} width={MINIMAP_WIDTH} height={minimapHeight} className="block" />
+      <div
+        className="pointer-events-none absolute border-2 border-red-600"
+        style={{
+          left: visible.x * ratio,
+          top: visible.y * ratio,
+          width: visible.width * ratio,
+          height: visible.height * ratio,
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import { useRef, useState } from "react";
+import type { Point } from "@/lib/geometry";
+import { LANDMARK_GROUPS } from "@/lib/masking";
+import { clampToImage, svgPointToImage } from "@/lib/pointer";
+import { useViewportMapping } from "@/components/image-viewport";
+
+// Handle colour per feature; left and right share one
+const GROUP_COLORS: Record<string, string> = {
+  jaw: '#f59e0b',
+  brow: '#a855f7',
+  nose: '#22c55e',
+  eye: '#38bdf8',
+  mouth: '#f43f5e',
+};
+
+// Handle radius in screen pixels when inside a zoomable viewport
+const HANDLE_RADIUS = 4;
+
+const groupColor = (id: string) => GROUP_COLORS[id.replace(/^(left|right)-/, '')] ?? '#ffffff';
+
+interface LandmarkEditorProps {
+  // Image size in pixels; the editor is stretched over the displayed image
+  width: number;
+  height: number;
+  // Landmarks per face, in image pixels
+  faces: Point[][];
+  // Called on every move while a handle is dragged
+  onChange: (faces: Point[][]) => void;
+  // Called once when a drag ends
+  onCommit: (faces: Point[][]) => void;
+}
+
+interface Drag {
+  pointerId: number;
+  face: number;
+  point: number;
+}
+
+// Draggable landmark handles. Uses pointer events, so mouse, touch and pen all work,
+// and maps through the viewport's zoom and pan, or else the SVG's screen transform, so
+// any scaling of the displayed image is handled.
+export function LandmarkEditor({ width, height, faces, onChange, onCommit }: LandmarkEditorProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const latest = useRef(faces);
+  latest.current = faces;
+
+  const viewport = useViewportMapping();
+
+  // Handles stay about the same size on screen whatever the photo's resolution or zoom
+  const radius = viewport ? HANDLE_RADIUS / viewport.scale : Math.max(width, height) / 160;
+
+  const toImage = (e: React.PointerEvent) => {
+    const mapped = viewport?.toImage(e.clientX, e.clientY);
+    if (mapped) return clampToImage(mapped, width, height);
+    return svgRef.current && svgPointToImage(svgRef.current, e.clientX, e.clientY, width, height);
+  };
+
+  const movePoint = (face: number, point: number, to: Point) =>
+    latest.current.map((landmarks, i) =>
+      i === face ? landmarks.map((p, j) => (j === point ? to : p)) : landmarks
+    );
+
+  const handlePointerDown = (e: React.PointerEvent, face: number, point: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    (e.currentTarget as Element).setPointerCapture(e.pointerId);
+    setDrag({ pointerId: e.pointerId, face, point });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag || e.pointerId !== drag.pointerId) return;
+    const to = toImage(e);
+    if (to) onChange(movePoint(drag.face, drag.point, to));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!drag || e.pointerId !== drag.pointerId) return;
+    setDrag(null);
+    onCommit(latest.current);
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="none"
+      className="absolute inset-0 h-full w-full"
+      style={{ zIndex: 2, touchAction: 'none' }}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {faces.map((landmarks, face) => (
+        <g key={face}>
+          {LANDMARK_GROUPS.map(group => {
+            const [start, end] = group.range;
+            const points = landmarks.slice(start, end);
+            const color = groupColor(group.id);
+            const outline = points.map(p => `${p.x},${p.y}`).join(' ');
+            return (
+              <g key={group.id} aria-label={group.label}>
+                {group.closed ? (
+                  <polygon points={outline} fill="none" stroke={color} strokeWidth={radius / 3} opacity={0.7} />
+                ) : (
+                  <polyline points={outline} fill="none" stroke={color} strokeWidth={radius / 3} opacity={0.7} />
+                )}
+                {points.map((p, offset) => {
+                  const index = start + offset;
+                  const active = drag?.face === face && drag.point === index;
+                  return (
+                    <g key={index} style={{ cursor: 'grab' }} onPointerDown={(e) => handlePointerDown(e, face, index)}>
+                      {/* Invisible larger target so fingers don't have to hit the dot exactly */}
+                      <circle cx={p.x} cy={p.y} r={radius * 3} fill="transparent" />
+                      <circle
+                        cx={p.x}
+                        cy={p.y}
+                        r={active ? radius * 1.5 : radius}
+                        fill={color}
+                        stroke="#000"
+                        strokeWidth={radius / 4}
+                        pointerEvents="none"
+                      />
+                      <title>{`${group.label} ${offset + 1}`}</title>
+                    </g>
+                  );
+                })}
+              </g>
+            );
+          })}
+        </g>
+      ))}
+    </svg>
+  );
+}
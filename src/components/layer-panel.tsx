@@ -0,0 +1,77 @@
+"use client";
+
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { LAYER_IDS, LAYER_LABELS, type LayerId, type LayerSettings, type LayerStack } from "@/lib/compositor";
+
+interface LayerPanelProps {
+  stack: LayerStack;
+  onChange: (stack: LayerStack) => void;
+  // Called once a change is final (e.g. on slider release), to record it for undo
+  onCommit: (stack: LayerStack) => void;
+  disabled?: boolean;
+}
+
+// Listed top to bottom, the way layer panels usually read
+const PANEL_ORDER = [...LAYER_IDS].reverse();
+
+export function LayerPanel({ stack, onChange, onCommit, disabled }: LayerPanelProps) {
+  const patched = (layer: LayerId, patch: Partial<LayerSettings>) =>
+    ({ ...stack, [layer]: { ...stack[layer], ...patch } });
+  const update = (layer: LayerId, patch: Partial<LayerSettings>) => {
+    const next = patched(layer, patch);
+    onChange(next);
+    onCommit(next);
+  };
+
+  return (
+    <Accordion type="single" collapsible className="w-full">
+      <AccordionItem value="layers" className="border-zinc-800">
+        <AccordionTrigger className="text-sm text-gray-300 hover:no-underline">
+          Layers
+        </AccordionTrigger>
+        <AccordionContent className="space-y-4 pt-2">
+          <p className="text-xs text-gray-500">
+            Downloads and shared images are flattened from the visible layers, exactly as shown.
+          </p>
+          {PANEL_ORDER.map(layer => {
+            const settings = stack[layer];
+            return (
+              <div key={layer} className="space-y-2">
+                <div className="flex items-center justify-between gap-4">
+                  <Label htmlFor={`layer-${layer}`} className="text-sm text-gray-300">
+                    {LAYER_LABELS[layer]}
+                  </Label>
+                  <Switch
+                    id={`layer-${layer}`}
+                    checked={settings.visible}
+                    onCheckedChange={(visible) => update(layer, { visible })}
+                    disabled={disabled}
+                    className="data-[state=checked]:bg-red-700 data-[state=unchecked]:bg-zinc-700"
+                  />
+                </div>
+                {settings.visible && (
+                  <div className="flex items-center gap-3">
+                    <span className="w-20 text-xs text-gray-500">Opacity</span>
+                    <Slider
+                      min={0}
+                      max={100}
+                      step={1}
+                      value={[Math.round(settings.opacity * 100)]}
+                      onValueChange={([opacity]) => onChange(patched(layer, { opacity: opacity / 100 }))}
+                      onValueCommit={([opacity]) => onCommit(patched(layer, { opacity: opacity / 100 }))}
+                      disabled={disabled}
+                    />
+                    <span className="w-10 text-right text-xs text-gray-500">{Math.round(settings.opacity * 100)}%</span>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </AccordionContent>
+      </AccordionItem>
+    </Accordion>
+  );
+}
@@ -0,0 +1,28 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { compositeLayers, type LayerSources, type LayerStack } from "@/lib/compositor";
+
+interface LayerPreviewProps {
+  sources: LayerSources;
+  stack: LayerStack;
+  className?: string;
+  label?: string;
+  // Called with the canvas after every redraw, e.g. to mirror it in a minimap
+  onRender?: (canvas: HTMLCanvasElement) => void;
+}
+
+// Shows the flattened layers at full resolution, scaled down by CSS like an <img>
+export function LayerPreview({ sources, stack, className, label, onRender }: LayerPreviewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const onRenderRef = useRef(onRender);
+  onRenderRef.current = onRender;
+
+  useEffect(() => {
+    if (!canvasRef.current) return;
+    compositeLayers(sources, stack, canvasRef.current);
+    onRenderRef.current?.(canvasRef.current);
+  }, [sources, stack]);
+
+  return <canvas ref={canvasRef} role="img" aria-label={label} className={className} />;
+}
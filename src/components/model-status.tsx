@@ -0,0 +1,56 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { MODELS, type ModelId, type ModelStates } from "@/lib/model-manager";
+
+interface ModelStatusPanelProps {
+  states: ModelStates;
+  onRetry: () => void;
+}
+
+const megabytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+// Per-model download progress and load errors; renders nothing once every model in use is ready
+export function ModelStatusPanel({ states, onRetry }: ModelStatusPanelProps) {
+  const active = (Object.keys(states) as ModelId[]).filter(id => {
+    const { state } = states[id];
+    return state === 'loading' || state === 'error';
+  });
+  if (active.length === 0) return null;
+
+  const failed = active.some(id => states[id].state === 'error');
+
+  return (
+    <div className="w-full space-y-3 rounded-md border border-zinc-800 bg-zinc-800/40 p-3">
+      {active.map(id => {
+        const status = states[id];
+        return (
+          <div key={id} className="space-y-1">
+            <div className="flex justify-between text-xs text-gray-300">
+              <span>{MODELS[id].label}</span>
+              {status.state === 'loading' && (
+                <span className="text-gray-500">
+                  {status.total ? `${megabytes(status.loaded)} of ${megabytes(status.total)}` : 'Starting...'}
+                </span>
+              )}
+            </div>
+            {status.state === 'loading' ? (
+              <Progress
+                value={status.total ? (status.loaded / status.total) * 100 : 0}
+                className="h-1.5 bg-zinc-700 [&>div]:bg-red-700"
+              />
+            ) : status.state === 'error' ? (
+              <p className="text-xs text-red-400">{status.message}</p>
+            ) : null}
+          </div>
+        );
+      })}
+      {failed && (
+        <Button onClick={onRetry} className="w-full bg-zinc-800 text-white hover:bg-zinc-700">
+          Retry loading models
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { METADATA_LABELS, type PrivacyReport } from "@/lib/privacy";
+
+interface PrivacyReportDialogProps {
+  report: PrivacyReport | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: () => void;
+  confirmLabel?: string;
+}
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export function PrivacyReportDialog({ report, open, onOpenChange, onConfirm, confirmLabel = "Share" }: PrivacyReportDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-zinc-900 text-white border-red-900/50">
+        <DialogHeader>
+          <DialogTitle>Privacy report</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            The image was re-encoded from its pixels and checked before leaving your device.
+          </DialogDescription>
+        </DialogHeader>
+
+        {report && (
+          <div className="space-y-4 text-sm">
+            <div>
+              <p className="font-medium text-gray-200">Removed from your photo</p>
+              {report.removed.length > 0 ? (
+                <ul className="mt-2 list-disc space-y-1 pl-5 text-gray-300">
+                  {report.removed.map(kind => (
+                    <li key={kind}>{METADATA_LABELS[kind]}</li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="mt-2 text-gray-400">Your photo carried no identifying metadata.</p>
+              )}
+            </div>
+
+            <div>
+              <p className="font-medium text-gray-200">What leaves your device</p>
+              <p className="mt-2 text-gray-300">
+                A {report.width} × {report.height} PNG ({formatBytes(report.byteSize)}) containing only pixel data.
+                {report.verified && " No EXIF, GPS, maker notes, colour profile comments or thumbnails were found in the file."}
+              </p>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button onClick={() => onOpenChange(false)} className="bg-zinc-800 text-white hover:bg-zinc-700">
+            Cancel
+          </Button>
+          <Button onClick={onConfirm} disabled={!report} className="bg-red-800 text-white hover:bg-red-900">
+            {confirmLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
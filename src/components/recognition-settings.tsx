@@ -0,0 +1,153 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import {
+  RECOGNITION_RULE_LABELS,
+  THRESHOLD_RANGE,
+  type EnrolledFace,
+  type RecognitionRule,
+  type RecognitionSettings,
+} from "@/lib/recognition";
+
+interface RecognitionSettingsPanelProps {
+  settings: RecognitionSettings;
+  onChange: (settings: RecognitionSettings) => void;
+  // Called once a change is final (e.g. on slider release), to detect again
+  onCommit: (settings: RecognitionSettings) => void;
+  enrolled: EnrolledFace[];
+  onEnrol: (file: File, name: string) => Promise<void>;
+  onRemove: (id: string) => void;
+  disabled?: boolean;
+}
+
+export function RecognitionSettingsPanel({
+  settings,
+  onChange,
+  onCommit,
+  enrolled,
+  onEnrol,
+  onRemove,
+  disabled,
+}: RecognitionSettingsPanelProps) {
+  const [name, setName] = useState("");
+  const [enrolling, setEnrolling] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (patch: Partial<RecognitionSettings>) => {
+    onChange({ ...settings, ...patch });
+    onCommit({ ...settings, ...patch });
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setEnrolling(true);
+    try {
+      await onEnrol(file, name.trim() || `Person ${enrolled.length + 1}`);
+      setName("");
+    } finally {
+      setEnrolling(false);
+    }
+  };
+
+  return (
+    <Accordion type="single" collapsible className="w-full">
+      <AccordionItem value="recognition" className="border-zinc-800">
+        <AccordionTrigger className="text-sm text-gray-300 hover:no-underline">
+          Who gets masked
+        </AccordionTrigger>
+        <AccordionContent className="space-y-5 pt-2">
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="recognition-rule" className="text-sm text-gray-300">Rule</Label>
+            <Select
+              value={settings.rule}
+              onValueChange={(rule) => update({ rule: rule as RecognitionRule })}
+              disabled={disabled}
+            >
+              <SelectTrigger id="recognition-rule" className="w-72 bg-zinc-800 border-zinc-700">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(RECOGNITION_RULE_LABELS) as RecognitionRule[]).map(rule => (
+                  <SelectItem key={rule} value={rule}>{RECOGNITION_RULE_LABELS[rule]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {settings.rule !== 'all' && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm text-gray-300">
+                <span>Match threshold</span>
+                <span className="text-gray-500">{settings.threshold.toFixed(2)}</span>
+              </div>
+              <Slider
+                min={THRESHOLD_RANGE.min}
+                max={THRESHOLD_RANGE.max}
+                step={THRESHOLD_RANGE.step}
+                value={[settings.threshold]}
+                onValueChange={([threshold]) => onChange({ ...settings, threshold })}
+                onValueCommit={([threshold]) => onCommit({ ...settings, threshold })}
+                disabled={disabled}
+              />
+              <p className="text-xs text-gray-500">
+                Lower is stricter: fewer false matches, but the same person may be missed in different light.
+              </p>
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <p className="text-sm text-gray-300">Enrolled people</p>
+            <p className="text-xs text-gray-500">
+              Reference faces are stored only in this browser and never uploaded.
+            </p>
+            {enrolled.length > 0 && (
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                {enrolled.map(face => (
+                  <div
+                    key={face.id}
+                    className="flex items-center gap-2 rounded-md border border-zinc-800 bg-zinc-800/50 p-2"
+                  >
+                    <img src={face.thumbnail} alt={face.name} className="h-10 w-10 rounded object-cover" />
+                    <span className="flex-1 truncate text-sm text-gray-300">{face.name}</span>
+                    <Button
+                      onClick={() => onRemove(face.id)}
+                      disabled={disabled}
+                      className="h-7 bg-zinc-800 px-2 text-xs text-white hover:bg-zinc-700"
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Name (optional)"
+                className="bg-zinc-800 border-zinc-700"
+              />
+              <Button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={disabled || enrolling}
+                className="bg-zinc-800 text-white hover:bg-zinc-700"
+              >
+                {enrolling ? 'Enrolling...' : 'Enrol from photo'}
+              </Button>
+              <input ref={fileInputRef} type="file" accept="image/*" onChange={handleFile} className="hidden" />
+            </div>
+          </div>
+        </AccordionContent>
+      </AccordionItem>
+    </Accordion>
+  );
+}
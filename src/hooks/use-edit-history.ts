@@ -0,0 +1,70 @@
+import * as React from "react"
+import { emptyHistory, pushEdit, redoEdit, undoEdit, type EditHistory } from "@/lib/edit-history"
+
+export type EditDirection = 'undo' | 'redo'
+
+const isTextInput = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+
+// Undo/redo over edit commands, with Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) and Ctrl+Y.
+// `apply` performs a command in either direction; the newest one passed is always used.
+// Shortcuts are ignored while `enabled` is false and while typing in a field.
+export function useEditHistory<C>(apply: (command: C, direction: EditDirection) => void, enabled: boolean = true) {
+  const [history, setHistory] = React.useState<EditHistory<C>>(emptyHistory)
+  const historyRef = React.useRef(history)
+  const applyRef = React.useRef(apply)
+  applyRef.current = apply
+
+  const update = React.useCallback((next: EditHistory<C>) => {
+    historyRef.current = next
+    setHistory(next)
+  }, [])
+
+  const push = React.useCallback((command: C) => update(pushEdit(historyRef.current, command)), [update])
+
+  const clear = React.useCallback(() => update(emptyHistory()), [update])
+
+  const undo = React.useCallback(() => {
+    const step = undoEdit(historyRef.current)
+    if (!step) return
+    update(step.history)
+    applyRef.current(step.command, 'undo')
+  }, [update])
+
+  const redo = React.useCallback(() => {
+    const step = redoEdit(historyRef.current)
+    if (!step) return
+    update(step.history)
+    applyRef.current(step.command, 'redo')
+  }, [update])
+
+  React.useEffect(() => {
+    if (!enabled) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextInput(e.target)) return
+      const key = e.key.toLowerCase()
+      if (key === 'z') {
+        e.preventDefault()
+        if (e.shiftKey) redo()
+        else undo()
+      } else if (key === 'y' && !e.shiftKey) {
+        e.preventDefault()
+        redo()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [enabled, undo, redo])
+
+  return {
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    push,
+    clear,
+    undo,
+    redo,
+  }
+}
@@ -0,0 +1,12 @@
+import * as React from "react"
+import { getModelStates, type ModelStates } from "@/lib/model-manager"
+import { subscribeModelStates } from "@/lib/worker/client"
+
+// Live download state of the face models, for progress and error UI
+export function useModelStates(): ModelStates {
+  const [states, setStates] = React.useState<ModelStates>(getModelStates)
+
+  React.useEffect(() => subscribeModelStates(setStates), [])
+
+  return states
+}
@@ -0,0 +1,9 @@
+// Path prefix the app is served under, e.g. '/piper' for a GitHub project page. Set
+// NEXT_PUBLIC_BASE_PATH at build time; next.config.ts normalises it and hands it to Next.
+export const BASE_PATH = process.env.NEXT_PUBLIC_BASE_PATH ?? '';
+
+// Prefixes a root-relative path to a file in `public/`. Routes don't need this: the Next
+// router and <Link> add the base path themselves.
+export function withBasePath(path: string): string {
+  return `${BASE_PATH}${path.startsWith('/') ? path : `/${path}`}`;
+}
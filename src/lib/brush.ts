@@ -0,0 +1,143 @@
+import type { Point } from "@/lib/geometry";
+
+// Paint covers the photo with a colour; restore paints the original photo back over the mask
+export type BrushTool = 'paint' | 'restore';
+
+export const BRUSH_TOOLS: { id: BrushTool; label: string }[] = [
+  { id: 'paint', label: 'Paint' },
+  { id: 'restore', label: 'Restore photo' },
+];
+
+export type BrushColorMode = 'skin' | 'black' | 'custom';
+
+export const BRUSH_COLOR_MODES: { id: BrushColorMode; label: string }[] = [
+  { id: 'skin', label: 'Skin tone' },
+  { id: 'black', label: 'Black' },
+  { id: 'custom', label: 'Custom' },
+];
+
+// On-screen brush diameter in CSS pixels; strokes store it in image pixels
+export const BRUSH_SIZE_RANGE = { min: 2, max: 80, step: 1 };
+
+// Share of the brush radius that fades out at the edge of a restore stroke
+export const SOFTNESS_RANGE = { min: 0, max: 1, step: 0.05 };
+
+export interface BrushSettings {
+  tool: BrushTool;
+  size: number;
+  colorMode: BrushColorMode;
+  // Hex colour used by the "custom" mode
+  customColor: string;
+  softness: number;
+}
+
+export const DEFAULT_BRUSH_SETTINGS: BrushSettings = {
+  tool: 'paint',
+  size: 16,
+  colorMode: 'skin',
+  customColor: '#7f1d1d',
+  softness: 0.5,
+};
+
+export interface StrokePoint extends Point {
+  // 0-1; a mouse or finger is always 1, a stylus reports how hard it is pressed
+  pressure: number;
+}
+
+// One brush stroke in image pixels. Strokes are kept as data rather than pixels, so they
+// can be redrawn at any resolution.
+export type BrushStroke =
+  | { tool: 'paint'; color: string; size: number; points: StrokePoint[] }
+  | { tool: 'restore'; softness: number; size: number; points: StrokePoint[] };
+
+export type RestoreStroke = Extract<BrushStroke, { tool: 'restore' }>;
+
+// A light touch still leaves a visible line
+const MIN_PRESSURE_SCALE = 0.2;
+
+export function brushColor(settings: BrushSettings, skinColor: string): string {
+  if (settings.colorMode === 'skin') return skinColor;
+  if (settings.colorMode === 'black') return '#000000';
+  return settings.customColor;
+}
+
+const strokeWidth = (size: number, pressure: number) =>
+  size * Math.max(MIN_PRESSURE_SCALE, pressure);
+
+// Traces the points segment by segment, so each segment can follow the stylus pressure.
+// `from` skips segments that are already drawn, for strokes drawn while they grow.
+export function traceStroke(
+  ctx: CanvasRenderingContext2D,
+  points: StrokePoint[],
+  size: number,
+  style: string | CanvasPattern,
+  from: number = 0
+) {
+  if (points.length === 0) return;
+
+  ctx.save();
+  ctx.strokeStyle = style;
+  ctx.fillStyle = style;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  if (points.length === 1) {
+    const [p] = points;
+    ctx.beginPath();
+    ctx.arc(p.x, p.y, strokeWidth(size, p.pressure) / 2, 0, Math.PI * 2);
+    ctx.fill();
+  }
+  for (let i = Math.max(1, from); i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    ctx.lineWidth = strokeWidth(size, (a.pressure + b.pressure) / 2);
+    ctx.beginPath();
+    ctx.moveTo(a.x, a.y);
+    ctx.lineTo(b.x, b.y);
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+export function drawStroke(ctx: CanvasRenderingContext2D, stroke: Extract<BrushStroke, { tool: 'paint' }>, from: number = 0) {
+  traceStroke(ctx, stroke.points, stroke.size, stroke.color, from);
+}
+
+// Coverage of restore strokes with feathered edges. The strokes are traced off to the
+// side and only their blurred shadows land on the canvas, since shadow blur works in
+// every browser where canvas filters don't.
+function softStrokeMask(strokes: RestoreStroke[], width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+
+  const offset = width + Math.max(...strokes.map(stroke => stroke.size)) * 2;
+  ctx.save();
+  ctx.translate(-offset, 0);
+  ctx.shadowOffsetX = offset;
+  ctx.shadowColor = '#000';
+  for (const stroke of strokes) {
+    // The fade is kept inside the brush, so the soft edge doesn't widen the stroke
+    ctx.shadowBlur = (stroke.size * stroke.softness) / 2;
+    traceStroke(ctx, stroke.points, stroke.size * (1 - stroke.softness / 2), '#000');
+  }
+  ctx.restore();
+  return canvas;
+}
+
+// Paints `original` back wherever the restore strokes cover, onto `ctx`
+export function drawRestoreStrokes(
+  ctx: CanvasRenderingContext2D,
+  strokes: RestoreStroke[],
+  original: CanvasImageSource,
+  width: number,
+  height: number
+) {
+  if (strokes.length === 0) return;
+  const mask = softStrokeMask(strokes, width, height);
+  const maskCtx = mask.getContext('2d')!;
+  maskCtx.globalCompositeOperation = 'source-in';
+  maskCtx.drawImage(original, 0, 0, width, height);
+  ctx.drawImage(mask, 0, 0);
+}
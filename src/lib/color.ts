@@ -0,0 +1,59 @@
+// sRGB <-> CIELAB (D65). Lab distances track perceived colour differences, so skin
+// statistics are computed there instead of on raw RGB values.
+
+export type Rgb = [number, number, number];
+export type Lab = [number, number, number];
+
+const WHITE_X = 0.95047;
+const WHITE_Y = 1.0;
+const WHITE_Z = 1.08883;
+
+function toLinear(channel: number): number {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+function fromLinear(value: number): number {
+  const c = value <= 0.0031308 ? value * 12.92 : 1.055 * Math.pow(value, 1 / 2.4) - 0.055;
+  return Math.round(Math.min(1, Math.max(0, c)) * 255);
+}
+
+function labF(t: number): number {
+  return t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+}
+
+function labFInverse(t: number): number {
+  const t3 = t * t * t;
+  return t3 > 216 / 24389 ? t3 : (116 * t - 16) / (24389 / 27);
+}
+
+export function rgbToLab([r, g, b]: Rgb): Lab {
+  const lr = toLinear(r), lg = toLinear(g), lb = toLinear(b);
+  const x = (lr * 0.4124564 + lg * 0.3575761 + lb * 0.1804375) / WHITE_X;
+  const y = (lr * 0.2126729 + lg * 0.7151522 + lb * 0.0721750) / WHITE_Y;
+  const z = (lr * 0.0193339 + lg * 0.1191920 + lb * 0.9503041) / WHITE_Z;
+  const fx = labF(x), fy = labF(y), fz = labF(z);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+export function labToRgb([l, a, b]: Lab): Rgb {
+  const fy = (l + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+  const x = labFInverse(fx) * WHITE_X;
+  const y = labFInverse(fy) * WHITE_Y;
+  const z = labFInverse(fz) * WHITE_Z;
+  return [
+    fromLinear(x * 3.2404542 + y * -1.5371385 + z * -0.4985314),
+    fromLinear(x * -0.9692660 + y * 1.8760108 + z * 0.0415560),
+    fromLinear(x * 0.0556434 + y * -0.2040259 + z * 1.0572252),
+  ];
+}
+
+export function deltaE(a: Lab, b: Lab): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+}
+
+export function rgbString([r, g, b]: Rgb): string {
+  return `rgb(${r}, ${g}, ${b})`;
+}
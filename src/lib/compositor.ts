@@ -0,0 +1,149 @@
+import { drawRestoreStrokes, drawStroke, type BrushStroke, type RestoreStroke } from "@/lib/brush";
+
+// The edited picture as a stack of layers, flattened by one compositor for both the
+// on-screen preview and the exported file, so what is shown is what gets downloaded.
+
+export type LayerId = 'original' | 'mask' | 'strokes' | 'text' | 'branding';
+
+// Bottom to top
+export const LAYER_IDS: LayerId[] = ['original', 'mask', 'strokes', 'text', 'branding'];
+
+export const LAYER_LABELS: Record<LayerId, string> = {
+  original: 'Original photo',
+  mask: 'Face mask',
+  strokes: 'Brush touch-ups',
+  text: 'Text',
+  branding: 'Logo',
+};
+
+export interface LayerSettings {
+  visible: boolean;
+  // 0-1
+  opacity: number;
+}
+
+export type LayerStack = Record<LayerId, LayerSettings>;
+
+export const DEFAULT_LAYER_STACK: LayerStack = {
+  original: { visible: true, opacity: 1 },
+  mask: { visible: true, opacity: 1 },
+  strokes: { visible: true, opacity: 1 },
+  text: { visible: true, opacity: 1 },
+  branding: { visible: false, opacity: 0.9 },
+};
+
+export const OVERLAY_TEXT = "EVERYTHING WILL BE TAKEN AWAY";
+
+// What each layer is drawn from. Everything is in the original photo's pixels.
+export interface LayerSources {
+  original: HTMLImageElement;
+  // The masked render; it covers the whole photo, not just the faces
+  mask: CanvasImageSource | null;
+  strokes: BrushStroke[];
+  text: string;
+  branding: HTMLImageElement | null;
+}
+
+// Text and logo are sized from the photo, so they look the same at any resolution
+const TEXT_SIZE_RATIO = 0.045;
+const BRANDING_WIDTH_RATIO = 0.18;
+const MARGIN_RATIO = 0.03;
+
+function drawText(ctx: CanvasRenderingContext2D, text: string, width: number) {
+  const size = Math.max(12, Math.round(width * TEXT_SIZE_RATIO));
+  ctx.font = `bold ${size}px Arial`;
+  ctx.fillStyle = "darkred";
+  ctx.textAlign = "center";
+  ctx.textBaseline = "top";
+  ctx.fillText(text, width / 2, width * MARGIN_RATIO, width * (1 - 2 * MARGIN_RATIO));
+}
+
+function drawBranding(ctx: CanvasRenderingContext2D, logo: HTMLImageElement, width: number, height: number) {
+  const margin = width * MARGIN_RATIO;
+  const logoWidth = width * BRANDING_WIDTH_RATIO;
+  const logoHeight = (logo.naturalHeight / logo.naturalWidth) * logoWidth;
+  ctx.drawImage(logo, width - margin - logoWidth, height - margin - logoHeight, logoWidth, logoHeight);
+}
+
+// Strokes are flattened on their own canvas first, so the layer's opacity applies to the
+// layer as a whole rather than building up where strokes overlap. Restore strokes copy
+// the original photo into the layer, so they show it through the mask below.
+function strokesCanvas(strokes: BrushStroke[], original: HTMLImageElement, width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+
+  // Runs of restore strokes share one mask; order still matters against paint strokes
+  let restores: RestoreStroke[] = [];
+  for (const stroke of strokes) {
+    if (stroke.tool === 'restore') {
+      restores.push(stroke);
+      continue;
+    }
+    drawRestoreStrokes(ctx, restores, original, width, height);
+    restores = [];
+    drawStroke(ctx, stroke);
+  }
+  drawRestoreStrokes(ctx, restores, original, width, height);
+  return canvas;
+}
+
+// The original only shows where the mask is opaque, i.e. nowhere once the mask is drawn
+// over it. Features erased with the transparent fill stay see-through all the way down
+// instead of letting the real eyes or mouth show through the hole.
+function originalUnderMask(original: HTMLImageElement, mask: CanvasImageSource, width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(original, 0, 0, width, height);
+  ctx.globalCompositeOperation = 'destination-in';
+  ctx.drawImage(mask, 0, 0, width, height);
+  return canvas;
+}
+
+function drawLayer(ctx: CanvasRenderingContext2D, id: LayerId, sources: LayerSources, width: number, height: number) {
+  switch (id) {
+    case 'original':
+      if (sources.mask) ctx.drawImage(originalUnderMask(sources.original, sources.mask, width, height), 0, 0);
+      else ctx.drawImage(sources.original, 0, 0, width, height);
+      break;
+    case 'mask':
+      if (sources.mask) ctx.drawImage(sources.mask, 0, 0, width, height);
+      break;
+    case 'strokes':
+      if (sources.strokes.length > 0) ctx.drawImage(strokesCanvas(sources.strokes, sources.original, width, height), 0, 0);
+      break;
+    case 'text':
+      if (sources.text) drawText(ctx, sources.text, width);
+      break;
+    case 'branding':
+      if (sources.branding) drawBranding(ctx, sources.branding, width, height);
+      break;
+  }
+}
+
+// Flattens the visible layers at the original photo's full resolution. Draws into
+// `target` when given (e.g. the preview canvas), otherwise into a new canvas.
+export function compositeLayers(
+  sources: LayerSources,
+  stack: LayerStack,
+  target: HTMLCanvasElement = document.createElement('canvas')
+): HTMLCanvasElement {
+  const { width, height } = sources.original;
+  target.width = width;
+  target.height = height;
+  const ctx = target.getContext('2d')!;
+  ctx.clearRect(0, 0, width, height);
+
+  for (const id of LAYER_IDS) {
+    const { visible, opacity } = stack[id];
+    if (!visible || opacity <= 0) continue;
+    ctx.save();
+    ctx.globalAlpha = opacity;
+    drawLayer(ctx, id, sources, width, height);
+    ctx.restore();
+  }
+  return target;
+}
@@ -0,0 +1,63 @@
+// Undo/redo stacks of edit commands. Commands describe a change (a stroke, the mask
+// settings before and after) rather than holding canvas snapshots, and the oldest ones
+// are dropped once the stack outgrows its memory budget.
+
+export const HISTORY_BUDGET_BYTES = 8 * 1024 * 1024;
+
+interface HistoryEntry<C> {
+  command: C;
+  bytes: number;
+}
+
+export interface EditHistory<C> {
+  // Oldest first; the last entry is the next to undo
+  past: HistoryEntry<C>[];
+  // The last entry is the next to redo
+  future: HistoryEntry<C>[];
+  bytes: number;
+}
+
+export function emptyHistory<C>(): EditHistory<C> {
+  return { past: [], future: [], bytes: 0 };
+}
+
+// Rough in-memory size of a command; strings take two bytes per character
+export function estimateBytes(command: unknown): number {
+  return JSON.stringify(command).length * 2;
+}
+
+const totalBytes = <C>(entries: HistoryEntry<C>[]) =>
+  entries.reduce((sum, entry) => sum + entry.bytes, 0);
+
+// Records a new edit. Anything that could be redone is dropped, as in every editor, and
+// then the oldest edits until the history fits the budget. The newest edit is always kept.
+export function pushEdit<C>(
+  history: EditHistory<C>,
+  command: C,
+  budget: number = HISTORY_BUDGET_BYTES
+): EditHistory<C> {
+  const past = [...history.past, { command, bytes: estimateBytes(command) }];
+  let bytes = totalBytes(past);
+  while (past.length > 1 && bytes > budget) {
+    bytes -= past.shift()!.bytes;
+  }
+  return { past, future: [], bytes };
+}
+
+export function undoEdit<C>(history: EditHistory<C>): { history: EditHistory<C>; command: C } | null {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    command: entry.command,
+    history: { past: history.past.slice(0, -1), future: [...history.future, entry], bytes: history.bytes },
+  };
+}
+
+export function redoEdit<C>(history: EditHistory<C>): { history: EditHistory<C>; command: C } | null {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+  return {
+    command: entry.command,
+    history: { past: [...history.past, entry], future: history.future.slice(0, -1), bytes: history.bytes },
+  };
+}
@@ -0,0 +1,49 @@
+import type { EnrolledFace } from "@/lib/recognition";
+
+// Enrolled reference faces live only in this browser's IndexedDB; they are never uploaded
+
+const DB_NAME = 'piper-faces';
+const DB_VERSION = 1;
+const STORE = 'enrolled-faces';
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') return Promise.reject(new Error('IndexedDB is not available'));
+  if (!dbPromise) {
+    const open = indexedDB.open(DB_NAME, DB_VERSION);
+    open.onupgradeneeded = () => {
+      open.result.createObjectStore(STORE, { keyPath: 'id' });
+    };
+    dbPromise = request(open).catch(error => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return request(run(db.transaction(STORE, mode).objectStore(STORE)));
+}
+
+export async function listEnrolledFaces(): Promise<EnrolledFace[]> {
+  const faces = await withStore<EnrolledFace[]>('readonly', store => store.getAll());
+  return faces.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function saveEnrolledFace(face: EnrolledFace): Promise<void> {
+  await withStore('readwrite', store => store.put(face));
+}
+
+export async function deleteEnrolledFace(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}
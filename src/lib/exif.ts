@@ -0,0 +1,133 @@
+// Minimal readers for the orientation of camera photos. Values follow the EXIF
+// Orientation tag: 1 is upright, 2-8 are the seven flips and rotations.
+
+export type Orientation = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
+
+export type ImageContainer = 'jpeg' | 'heif' | 'other';
+
+const ORIENTATION_TAG = 0x0112;
+
+function ascii(view: DataView, offset: number, length: number): string {
+  let text = '';
+  for (let i = 0; i < length && offset + i < view.byteLength; i++) {
+    text += String.fromCharCode(view.getUint8(offset + i));
+  }
+  return text;
+}
+
+export function detectContainer(buffer: ArrayBuffer): ImageContainer {
+  const view = new DataView(buffer);
+  if (view.byteLength >= 2 && view.getUint16(0) === 0xffd8) return 'jpeg';
+  if (view.byteLength >= 12 && ascii(view, 4, 4) === 'ftyp') {
+    const brand = ascii(view, 8, 4);
+    if (['heic', 'heix', 'heim', 'heis', 'mif1', 'msf1', 'avif'].includes(brand)) return 'heif';
+  }
+  return 'other';
+}
+
+// Walks the JPEG segments to the Exif APP1 block and reads IFD0's Orientation entry
+function readJpegOrientation(view: DataView): Orientation {
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    // Start of scan: no metadata after this
+    if (marker === 0xffda || (marker & 0xff00) !== 0xff00) break;
+    const length = view.getUint16(offset + 2);
+
+    if (marker === 0xffe1 && ascii(view, offset + 4, 6) === 'Exif\0\0') {
+      const tiff = offset + 10;
+      if (tiff + 8 > view.byteLength) break;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd0 = tiff + view.getUint32(tiff + 4, little);
+      if (ifd0 + 2 > view.byteLength) break;
+
+      const entries = view.getUint16(ifd0, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd0 + 2 + i * 12;
+        if (entry + 12 > view.byteLength) break;
+        if (view.getUint16(entry, little) === ORIENTATION_TAG) {
+          const value = view.getUint16(entry + 8, little);
+          return value >= 1 && value <= 8 ? (value as Orientation) : 1;
+        }
+      }
+      break;
+    }
+    offset += 2 + length;
+  }
+  return 1;
+}
+
+interface Box {
+  type: string;
+  start: number;
+  end: number;
+  // Where the children or payload begin
+  body: number;
+}
+
+function* boxes(view: DataView, start: number, end: number): Generator<Box> {
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    const type = ascii(view, offset + 4, 4);
+    let body = offset + 8;
+    if (size === 1 && offset + 16 <= end) {
+      // 64-bit size; photos never get near 4GB, so the high word is ignored
+      size = view.getUint32(offset + 12);
+      body = offset + 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < 8) return;
+    yield { type, start: offset, end: Math.min(end, offset + size), body };
+    offset += size;
+  }
+}
+
+function findBox(view: DataView, parent: { body: number; end: number }, type: string): Box | undefined {
+  for (const box of boxes(view, parent.body, parent.end)) {
+    if (box.type === type) return box;
+  }
+  return undefined;
+}
+
+// ccw quarter turns, without and with a horizontal flip applied after the rotation
+const HEIF_TO_EXIF: Orientation[][] = [
+  [1, 8, 3, 6],
+  [2, 7, 4, 5],
+];
+
+// HEIF stores orientation as `irot` (counter-clockwise quarter turns) and `imir`
+// (mirror axis) item properties rather than an EXIF tag
+function readHeifOrientation(view: DataView): Orientation {
+  const meta = findBox(view, { body: 0, end: view.byteLength }, 'meta');
+  // meta is a full box: skip its version and flags
+  const iprp = meta && findBox(view, { body: meta.body + 4, end: meta.end }, 'iprp');
+  const ipco = iprp && findBox(view, iprp, 'ipco');
+  if (!ipco) return 1;
+
+  const irot = findBox(view, ipco, 'irot');
+  const imir = findBox(view, ipco, 'imir');
+  let quarterTurns = irot ? view.getUint8(irot.body) & 0x3 : 0;
+  let mirrored = false;
+  if (imir) {
+    mirrored = true;
+    // Axis 1 mirrors top-bottom, which is a left-right mirror plus a half turn
+    if (view.getUint8(imir.body) & 0x1) quarterTurns = (quarterTurns + 2) % 4;
+  }
+  return HEIF_TO_EXIF[mirrored ? 1 : 0][quarterTurns];
+}
+
+export function readOrientation(buffer: ArrayBuffer): Orientation {
+  const view = new DataView(buffer);
+  try {
+    switch (detectContainer(buffer)) {
+      case 'jpeg': return readJpegOrientation(view);
+      case 'heif': return readHeifOrientation(view);
+      default: return 1;
+    }
+  } catch {
+    // Truncated or malformed metadata: treat the photo as upright
+    return 1;
+  }
+}
@@ -0,0 +1,153 @@
+import * as faceapi from 'face-api.js';
+import type { Bounds, Point } from "@/lib/geometry";
+import { loadModel, type ModelId } from "@/lib/model-manager";
+
+export type DetectorBackend = 'tiny' | 'ssd';
+export type LandmarkModel = 'full' | 'tiny';
+
+export interface DetectorSettings {
+  backend: DetectorBackend;
+  landmarkModel: LandmarkModel;
+  // Tiny detector only: the image is resized to this square before detection. Larger
+  // finds smaller faces but is slower. Must be divisible by 32.
+  inputSize: number;
+  // Minimum detection score; lower finds tilted or dim faces at the cost of false positives
+  scoreThreshold: number;
+  // Longest side of the downscaled copy detection runs on. Masking always uses the
+  // full-resolution photo; landmarks are mapped back to it.
+  maxDetectionSize: number;
+}
+
+export const DEFAULT_DETECTOR_SETTINGS: DetectorSettings = {
+  backend: 'tiny',
+  landmarkModel: 'full',
+  inputSize: 416,
+  scoreThreshold: 0.5,
+  maxDetectionSize: 1024,
+};
+
+export const DETECTION_SIZE_RANGE = { min: 320, max: 4096, step: 64 };
+
+export const TINY_INPUT_SIZES = [128, 160, 224, 320, 416, 512, 608];
+
+const detectorModels: Record<DetectorBackend, ModelId> = {
+  tiny: 'tiny-detector',
+  ssd: 'ssd-detector',
+};
+
+const landmarkModels: Record<LandmarkModel, ModelId> = {
+  full: 'landmarks',
+  tiny: 'landmarks-tiny',
+};
+
+const landmarkNets = {
+  full: faceapi.nets.faceLandmark68Net,
+  tiny: faceapi.nets.faceLandmark68TinyNet,
+};
+
+// Only the models the settings actually use are fetched, so the default setup never
+// downloads the larger SSD weights
+export async function ensureModels(settings: DetectorSettings): Promise<void> {
+  await Promise.all([
+    loadModel(detectorModels[settings.backend]),
+    loadModel(landmarkModels[settings.landmarkModel]),
+  ]);
+}
+
+export function detectorOptions(settings: DetectorSettings): faceapi.TinyFaceDetectorOptions | faceapi.SsdMobilenetv1Options {
+  if (settings.backend === 'ssd') {
+    return new faceapi.SsdMobilenetv1Options({ minConfidence: settings.scoreThreshold });
+  }
+  return new faceapi.TinyFaceDetectorOptions({
+    inputSize: settings.inputSize,
+    scoreThreshold: settings.scoreThreshold,
+  });
+}
+
+// Plain, structured-cloneable form of a face-api detection, so it can cross the
+// worker boundary and be stored
+export interface FaceDetectionData {
+  box: Bounds;
+  score: number;
+  // The 68 landmark positions in image coordinates
+  landmarks: Point[];
+  // 128-d recognition descriptor, when requested
+  descriptor?: number[];
+}
+
+type DetectedFace = faceapi.WithFaceLandmarks<{ detection: faceapi.FaceDetection }, faceapi.FaceLandmarks68>
+  & { descriptor?: Float32Array };
+
+function toFaceDetectionData({ detection, landmarks, descriptor }: DetectedFace): FaceDetectionData {
+  const { x, y, width, height } = detection.box;
+  return {
+    box: { x, y, width, height },
+    score: detection.score,
+    landmarks: landmarks.positions.map(({ x, y }) => ({ x, y })),
+    ...(descriptor ? { descriptor: Array.from(descriptor) } : {}),
+  };
+}
+
+// The recognition net is only fetched once someone uses include/exclude rules
+export function ensureRecognitionModel(): Promise<void> {
+  return loadModel('recognition');
+}
+
+export async function detectFaces(
+  input: faceapi.TNetInput,
+  settings: DetectorSettings = DEFAULT_DETECTOR_SETTINGS,
+  { descriptors = false }: { descriptors?: boolean } = {}
+): Promise<FaceDetectionData[]> {
+  // Models for a newly selected backend are fetched on first use
+  await ensureModels(settings);
+  const withLandmarks = faceapi
+    .detectAllFaces(input, detectorOptions(settings))
+    .withFaceLandmarks(settings.landmarkModel === 'tiny');
+
+  let detections: DetectedFace[];
+  if (descriptors) {
+    await ensureRecognitionModel();
+    detections = await withLandmarks.withFaceDescriptors();
+  } else {
+    detections = await withLandmarks;
+  }
+
+  // Keep a stable left-to-right order so face numbers in the UI match the photo
+  return detections
+    .map(toFaceDetectionData)
+    .sort((a, b) => a.box.x - b.box.x);
+}
+
+// Maps a detection made on a resized copy back to the original image (factor = original / copy).
+// Descriptors don't depend on scale and are kept as they are.
+export function scaleFaceDetection({ box, score, landmarks, descriptor }: FaceDetectionData, factor: number): FaceDetectionData {
+  const extra = descriptor ? { descriptor } : {};
+  if (factor === 1) return { box, score, landmarks, ...extra };
+  return {
+    box: { x: box.x * factor, y: box.y * factor, width: box.width * factor, height: box.height * factor },
+    score,
+    landmarks: landmarks.map(p => ({ x: p.x * factor, y: p.y * factor })),
+    ...extra,
+  };
+}
+
+// Boxes only, without running the landmark net
+export async function detectFaceBoxes(
+  input: faceapi.TNetInput,
+  settings: DetectorSettings = DEFAULT_DETECTOR_SETTINGS
+): Promise<Pick<FaceDetectionData, 'box' | 'score'>[]> {
+  await ensureModels(settings);
+  const detections = await faceapi.detectAllFaces(input, detectorOptions(settings));
+  return detections.map(({ box: { x, y, width, height }, score }) => ({ box: { x, y, width, height }, score }));
+}
+
+// Runs only the landmark net, on an input that already shows just one face
+export async function detectLandmarks(
+  input: faceapi.TNetInput,
+  settings: DetectorSettings = DEFAULT_DETECTOR_SETTINGS
+): Promise<Point[]> {
+  await loadModel(landmarkModels[settings.landmarkModel]);
+  const result = await landmarkNets[settings.landmarkModel].detectLandmarks(input);
+  const landmarks = Array.isArray(result) ? result[0] : result;
+  return landmarks.positions.map(({ x, y }) => ({ x, y }));
+}
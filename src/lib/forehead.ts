@@ -0,0 +1,94 @@
+import { deltaE, rgbToLab, type Rgb } from "@/lib/color";
+import type { Point } from "@/lib/geometry";
+import type { PixelBuffer } from "@/lib/masking/pixel-buffer";
+
+export interface ForeheadOptions {
+  // Forehead height above the brows as a fraction of the brow-to-chin distance
+  heightRatio?: number;
+  // When pixels and a skin colour are given, pull the arc down to where skin stops
+  hairline?: { pixels: PixelBuffer; skin: Rgb };
+}
+
+// A typical forehead is a bit over half the brow-to-chin distance
+const DEFAULT_HEIGHT_RATIO = 0.55;
+const ARC_POINTS = 15;
+
+// Colour distance from the skin tone that counts as hair or background
+const HAIRLINE_DELTA_E = 22;
+// Consecutive off-skin samples needed before accepting a hairline, so a single
+// freckle, wrinkle or highlight doesn't cut the mask short
+const HAIRLINE_RUN = 3;
+const HAIRLINE_STEPS = 40;
+
+const sub = (a: Point, b: Point): Point => ({ x: a.x - b.x, y: a.y - b.y });
+const add = (a: Point, b: Point): Point => ({ x: a.x + b.x, y: a.y + b.y });
+const scale = (a: Point, k: number): Point => ({ x: a.x * k, y: a.y * k });
+const dot = (a: Point, b: Point) => a.x * b.x + a.y * b.y;
+const length = (a: Point) => Math.hypot(a.x, a.y);
+const normalize = (a: Point): Point => scale(a, 1 / (length(a) || 1));
+
+// Walks from `from` to `to` and returns the fraction of the way at which the pixels
+// stop looking like skin, or 1 when they never do
+function findHairline(from: Point, to: Point, startT: number, { pixels, skin }: NonNullable<ForeheadOptions['hairline']>): number {
+  const skinLab = rgbToLab(skin);
+  let run = 0;
+  let runStart = 1;
+  for (let step = 0; step <= HAIRLINE_STEPS; step++) {
+    const t = startT + (1 - startT) * (step / HAIRLINE_STEPS);
+    const x = Math.round(from.x + (to.x - from.x) * t);
+    const y = Math.round(from.y + (to.y - from.y) * t);
+    if (x < 0 || y < 0 || x >= pixels.width || y >= pixels.height) break;
+
+    const idx = (y * pixels.width + x) * 4;
+    const lab = rgbToLab([pixels.data[idx], pixels.data[idx + 1], pixels.data[idx + 2]]);
+    if (deltaE(lab, skinLab) > HAIRLINE_DELTA_E) {
+      if (run === 0) runStart = t;
+      if (++run >= HAIRLINE_RUN) return runStart;
+    } else {
+      run = 0;
+    }
+  }
+  return 1;
+}
+
+// Skull-shaped arc over the brows, from the right temple (jaw point 16) to the left
+// one (jaw point 0). Everything is measured along the face's own axes, so the arc
+// scales with the photo resolution and follows a tilted head.
+export function estimateForehead(lm: Point[], { heightRatio = DEFAULT_HEIGHT_RATIO, hairline }: ForeheadOptions = {}): Point[] {
+  const leftTemple = lm[0];
+  const rightTemple = lm[16];
+  const chin = lm[8];
+  const brows = lm.slice(17, 27);
+  const browCenter = scale(brows.reduce((sum, p) => add(sum, p), { x: 0, y: 0 }), 1 / brows.length);
+
+  const up = normalize(sub(browCenter, chin));
+  const across = normalize(sub(rightTemple, leftTemple));
+  const base = scale(add(leftTemple, rightTemple), 0.5);
+  const halfWidth = length(sub(rightTemple, leftTemple)) / 2;
+
+  // Highest brow point above the temple line, plus the forehead itself
+  const browTop = Math.max(...brows.map(p => dot(sub(p, base), up)), 0);
+  const foreheadHeight = length(sub(browCenter, chin)) * heightRatio;
+  const arcHeight = browTop + foreheadHeight;
+
+  const arc: Point[] = [];
+  for (let i = 1; i < ARC_POINTS; i++) {
+    const theta = (Math.PI * i) / ARC_POINTS;
+    const foot = add(base, scale(across, halfWidth * Math.cos(theta)));
+    let top = add(foot, scale(up, arcHeight * Math.sin(theta)));
+
+    if (hairline) {
+      // Search only above the brows, never shrinking the mask below them
+      const browT = Math.min(1, browTop / (arcHeight * Math.sin(theta) || 1));
+      const t = findHairline(foot, top, browT, hairline);
+      top = add(foot, scale(sub(top, foot), Math.max(t, browT)));
+    }
+    arc.push(top);
+  }
+  return arc;
+}
+
+// Full face outline: jaw from the left temple round the chin, then the forehead arc back
+export function buildFaceRegion(lm: Point[], options?: ForeheadOptions): Point[] {
+  return [...lm.slice(0, 17), ...estimateForehead(lm, options)];
+}
@@ -0,0 +1,81 @@
+import { detectContainer, readOrientation, type Orientation } from "@/lib/exif";
+import { canvasToBlob, loadImage } from "@/lib/image-utils";
+
+// 2x1 JPEG header carrying Orientation 6 (rotate 90° clockwise): SOI, then an APP1
+// Exif block with a single IFD0 entry. A real 2x1 JPEG body is appended at runtime.
+const ROTATED_EXIF_SEGMENT = new Uint8Array([
+  0xff, 0xe1, 0x00, 0x22, 0x45, 0x78, 0x69, 0x66, 0x00, 0x00, 0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00,
+  0x00, 0x08, 0x00, 0x01, 0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, 0x06, 0x00, 0x00,
+  0x00, 0x00, 0x00, 0x00,
+]);
+
+let autoOrientProbe: Promise<boolean> | null = null;
+
+// Current browsers rotate JPEGs by their EXIF tag when decoding (for <img> and for
+// drawImage alike); older ones show the raw sensor orientation. Decoding a 2x1 test
+// image tagged "rotate 90°" tells which one we are running in.
+function browserAppliesOrientation(): Promise<boolean> {
+  if (!autoOrientProbe) {
+    autoOrientProbe = (async () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = 2;
+      canvas.height = 1;
+      const jpeg = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg')).arrayBuffer());
+      const tagged = new Blob([jpeg.subarray(0, 2), ROTATED_EXIF_SEGMENT, jpeg.subarray(2)], { type: 'image/jpeg' });
+
+      const url = URL.createObjectURL(tagged);
+      try {
+        return (await loadImage(url)).naturalWidth === 1;
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+    })().catch(() => true);
+  }
+  return autoOrientProbe;
+}
+
+// Maps raw sensor pixels to their upright position (w, h are the raw dimensions)
+function applyOrientationTransform(ctx: CanvasRenderingContext2D, orientation: Orientation, w: number, h: number) {
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, w, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, w, h); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, h); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, h, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, h, w); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, w); break;
+  }
+}
+
+function readAsDataURL(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read file'));
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Returns a data URL whose pixels are stored upright, so detection, masking and the
+// final canvas all see the photo the way the user's photo app shows it
+export async function loadUprightImage(file: Blob): Promise<string> {
+  const buffer = await file.arrayBuffer();
+  const orientation = readOrientation(buffer);
+  const dataUrl = await readAsDataURL(file);
+  if (orientation === 1) return dataUrl;
+
+  const image = await loadImage(dataUrl);
+  // HEIF decoders must apply irot/imir, so only JPEGs can arrive un-rotated
+  const alreadyUpright = detectContainer(buffer) !== 'jpeg' || await browserAppliesOrientation();
+
+  const swap = !alreadyUpright && orientation >= 5;
+  const canvas = document.createElement('canvas');
+  canvas.width = swap ? image.naturalHeight : image.naturalWidth;
+  canvas.height = swap ? image.naturalWidth : image.naturalHeight;
+  const ctx = canvas.getContext('2d')!;
+  if (!alreadyUpright) applyOrientationTransform(ctx, orientation, image.naturalWidth, image.naturalHeight);
+  ctx.drawImage(image, 0, 0);
+
+  // Re-encoding also drops the orientation tag, so nothing downstream rotates twice
+  return canvas.toDataURL('image/jpeg', 0.95);
+}
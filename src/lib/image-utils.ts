@@ -0,0 +1,58 @@
+import type { Bounds } from "@/lib/geometry";
+import type { PixelBuffer } from "@/lib/masking";
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load image'));
+    image.src = src;
+  });
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type: string = 'image/png', quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))), type, quality);
+  });
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  // Give the browser a moment to start the download before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function readPixels(image: CanvasImageSource & { width: number; height: number }): ImageData {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(image, 0, 0);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+export function pixelsToCanvas({ width, height, data }: PixelBuffer): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')!.putImageData(new ImageData(new Uint8ClampedArray(data), width, height), 0, 0);
+  return canvas;
+}
+
+// Square thumbnail of a region, e.g. for showing an enrolled face
+export function cropThumbnail(image: CanvasImageSource, box: Bounds, size: number = 96): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const side = Math.max(box.width, box.height);
+  const x = box.x + box.width / 2 - side / 2;
+  const y = box.y + box.height / 2 - side / 2;
+  canvas.getContext('2d')!.drawImage(image, x, y, side, side, 0, 0, size, size);
+  return canvas.toDataURL('image/jpeg', 0.85);
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_DETECTOR_SETTINGS, type DetectorSettings } from "@/lib/face-detector";
+import { createLandmarkFile, LandmarkFileError, parseLandmarkFile } from "@/lib/landmark-file";
+import { FACE_BOX, faceLandmarks, IMAGE_SIZE } from "@/test/fixtures";
+
+const fileText = (detector: Partial<DetectorSettings> = {}) => JSON.stringify(createLandmarkFile(
+  { width: IMAGE_SIZE, height: IMAGE_SIZE },
+  { ...DEFAULT_DETECTOR_SETTINGS, ...detector },
+  [{ detection: { box: FACE_BOX, score: 0.9, landmarks: faceLandmarks() }, enabled: true }]
+));
+
+describe("parseLandmarkFile", () => {
+  it("reads back the detector settings it was written with", () => {
+    expect(parseLandmarkFile(fileText()).detector).toEqual(DEFAULT_DETECTOR_SETTINGS);
+  });
+
+  it.each([
+    ["an input size the tiny detector does not accept", { inputSize: 100 }],
+    ["a zero max detection size", { maxDetectionSize: 0 }],
+    ["a negative max detection size", { maxDetectionSize: -512 }],
+    ["a max detection size above the range", { maxDetectionSize: 10000 }],
+    ["a score threshold of 0", { scoreThreshold: 0 }],
+    ["a score threshold of 1", { scoreThreshold: 1 }],
+  ])("rejects %s", (_, detector) => {
+    expect(() => parseLandmarkFile(fileText(detector))).toThrow(LandmarkFileError);
+  });
+});
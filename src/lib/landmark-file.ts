@@ -0,0 +1,158 @@
+import { DETECTION_SIZE_RANGE, scaleFaceDetection, TINY_INPUT_SIZES, type DetectorBackend, type DetectorSettings, type FaceDetectionData, type LandmarkModel } from "@/lib/face-detector";
+import type { Bounds } from "@/lib/geometry";
+import { EXPANSION_RANGE, FEATURE_FILLS, FEATURE_IDS, LANDMARK_COUNT, type FeatureMaskConfig } from "@/lib/masking";
+import { MASK_STYLES } from "@/lib/mask-styles";
+
+// Versioned JSON record of where the faces in a photo are, so a render can be
+// reproduced (or hand-corrected) and masked again without running detection.
+
+export const LANDMARK_FILE_FORMAT = 'piper-landmarks';
+export const LANDMARK_FILE_VERSION = 1;
+
+export interface LandmarkFileFace {
+  box: Bounds;
+  score: number;
+  // LANDMARK_COUNT [x, y] pairs in image pixels, in the 68-point iBUG order
+  landmarks: [number, number][];
+  enabled: boolean;
+}
+
+export interface LandmarkFile {
+  format: typeof LANDMARK_FILE_FORMAT;
+  version: typeof LANDMARK_FILE_VERSION;
+  image: { width: number; height: number };
+  detector: DetectorSettings;
+  faces: LandmarkFileFace[];
+  // How the mask was rendered, when known
+  mask?: { styleId: string; features: FeatureMaskConfig };
+}
+
+export class LandmarkFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LandmarkFileError';
+  }
+}
+
+export function createLandmarkFile(
+  image: { width: number; height: number },
+  detector: DetectorSettings,
+  faces: { detection: FaceDetectionData; enabled: boolean }[],
+  mask?: LandmarkFile['mask']
+): LandmarkFile {
+  return {
+    format: LANDMARK_FILE_FORMAT,
+    version: LANDMARK_FILE_VERSION,
+    image: { width: image.width, height: image.height },
+    detector,
+    faces: faces.map(({ detection: { box, score, landmarks }, enabled }) => ({
+      box,
+      score,
+      landmarks: landmarks.map(({ x, y }) => [x, y]),
+      enabled,
+    })),
+    ...(mask ? { mask } : {}),
+  };
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isObject = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null;
+
+function isBounds(value: unknown): value is Bounds {
+  return isObject(value) && isNumber(value.x) && isNumber(value.y) && isNumber(value.width) && isNumber(value.height);
+}
+
+// Imported settings become the live detector settings, so only values the detector accepts:
+// the tiny detector needs one of its input sizes, and a zero or negative size would scale
+// the detection proxy down to nothing
+function isDetector(value: unknown): value is DetectorSettings {
+  return isObject(value)
+    && (['tiny', 'ssd'] as DetectorBackend[]).includes(value.backend)
+    && (['full', 'tiny'] as LandmarkModel[]).includes(value.landmarkModel)
+    && TINY_INPUT_SIZES.includes(value.inputSize)
+    && isNumber(value.scoreThreshold)
+    && value.scoreThreshold > 0
+    && value.scoreThreshold < 1
+    && isNumber(value.maxDetectionSize)
+    && value.maxDetectionSize >= DETECTION_SIZE_RANGE.min
+    && value.maxDetectionSize <= DETECTION_SIZE_RANGE.max;
+}
+
+// Only fills and expansions the masking code knows, so no feature is silently left visible
+function isFeatureConfig(value: unknown): value is FeatureMaskConfig {
+  return isObject(value) && FEATURE_IDS.every(id =>
+    isObject(value[id])
+    && typeof value[id].enabled === 'boolean'
+    && FEATURE_FILLS.some(fill => fill.id === value[id].fill)
+    && isNumber(value[id].expansion)
+    && value[id].expansion >= EXPANSION_RANGE.min
+    && value[id].expansion <= EXPANSION_RANGE.max
+  );
+}
+
+const isMaskStyleId = (value: unknown) => MASK_STYLES.some(style => style.id === value);
+
+function parseFace(value: unknown, index: number): LandmarkFileFace {
+  const fail = (reason: string) => new LandmarkFileError(`Face ${index + 1}: ${reason}`);
+  if (!isObject(value)) throw fail('not an object');
+  if (!isBounds(value.box)) throw fail('missing or invalid box');
+  if (!isNumber(value.score)) throw fail('missing score');
+  if (!Array.isArray(value.landmarks) || value.landmarks.length !== LANDMARK_COUNT) {
+    throw fail(`expected ${LANDMARK_COUNT} landmarks`);
+  }
+  if (!value.landmarks.every((p: unknown) => Array.isArray(p) && p.length === 2 && isNumber(p[0]) && isNumber(p[1]))) {
+    throw fail('landmarks must be [x, y] number pairs');
+  }
+  return { box: value.box, score: value.score, landmarks: value.landmarks, enabled: value.enabled !== false };
+}
+
+export function parseLandmarkFile(text: string): LandmarkFile {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new LandmarkFileError('The file is not valid JSON');
+  }
+
+  if (!isObject(json) || json.format !== LANDMARK_FILE_FORMAT) throw new LandmarkFileError('Not a landmark file');
+  if (json.version !== LANDMARK_FILE_VERSION) {
+    throw new LandmarkFileError(`Unsupported landmark file version ${json.version}`);
+  }
+  if (!isObject(json.image) || !isNumber(json.image.width) || !isNumber(json.image.height)) {
+    throw new LandmarkFileError('Missing image dimensions');
+  }
+  if (!isDetector(json.detector)) throw new LandmarkFileError('Missing or invalid detector settings');
+  if (!Array.isArray(json.faces) || json.faces.length === 0) throw new LandmarkFileError('The file contains no faces');
+  if (json.mask !== undefined && !(isObject(json.mask) && isMaskStyleId(json.mask.styleId) && isFeatureConfig(json.mask.features))) {
+    throw new LandmarkFileError('Invalid mask settings');
+  }
+
+  return {
+    format: LANDMARK_FILE_FORMAT,
+    version: LANDMARK_FILE_VERSION,
+    image: { width: json.image.width, height: json.image.height },
+    detector: json.detector,
+    faces: json.faces.map(parseFace),
+    ...(json.mask ? { mask: json.mask } : {}),
+  };
+}
+
+// The file's faces in the coordinates of `image`. A resized copy of the same photo is
+// fine; a different aspect ratio means the file belongs to another image.
+export function landmarkFileFaces(
+  file: LandmarkFile,
+  image: { width: number; height: number }
+): { detection: FaceDetectionData; enabled: boolean }[] {
+  const scaleX = image.width / file.image.width;
+  const scaleY = image.height / file.image.height;
+  if (Math.abs(scaleX - scaleY) > 0.01 * Math.max(scaleX, scaleY)) {
+    throw new LandmarkFileError(
+      `The landmarks were made for a ${file.image.width}×${file.image.height} image, which does not match this ${image.width}×${image.height} photo`
+    );
+  }
+
+  return file.faces.map(({ box, score, landmarks, enabled }) => ({
+    detection: scaleFaceDetection({ box, score, landmarks: landmarks.map(([x, y]) => ({ x, y })) }, scaleX),
+    enabled,
+  }));
+}
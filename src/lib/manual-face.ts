@@ -0,0 +1,70 @@
+import { polygonBounds, type Bounds, type Point } from "@/lib/geometry";
+
+// Faces the user marks by hand when the detector finds nothing: either a box around
+// the face, or taps on both eyes and the mouth.
+
+export type ManualFaceSelection =
+  | { kind: 'box'; box: Bounds }
+  | { kind: 'points'; eyes: [Point, Point]; mouth: Point };
+
+// 'landmark-net' runs the landmark model on the marked region; 'template' places an
+// average face, which also works where the model fails (stylised portraits, profiles)
+export type ManualFit = 'landmark-net' | 'template';
+
+const ellipse = (cx: number, cy: number, rx: number, ry: number, angles: number[]): Point[] =>
+  angles.map(a => ({ x: cx + rx * Math.cos(a), y: cy - ry * Math.sin(a) }));
+
+const range = (count: number, map: (i: number) => number) => Array.from({ length: count }, (_, i) => map(i));
+
+// An average frontal face in the 68-point layout, in a unit box shaped like the
+// detector's boxes (brows near the top, chin at the bottom)
+const TEMPLATE: Point[] = [
+  // Jaw, image left to right around the chin
+  ...range(17, i => Math.PI - (Math.PI * i) / 16).map(a => ({ x: 0.5 + 0.48 * Math.cos(a), y: 0.3 + 0.7 * Math.sin(a) })),
+  // Brows
+  ...range(5, i => i).map(i => ({ x: 0.12 + i * 0.08, y: 0.22 - 0.05 * Math.sin((Math.PI * i) / 4) })),
+  ...range(5, i => i).map(i => ({ x: 0.56 + i * 0.08, y: 0.22 - 0.05 * Math.sin((Math.PI * i) / 4) })),
+  // Nose bridge, then the base from left to right
+  ...range(4, i => i).map(i => ({ x: 0.5, y: 0.33 + i * 0.085 })),
+  ...range(5, i => i).map(i => ({ x: 0.39 + i * 0.055, y: 0.64 + 0.02 * Math.sin((Math.PI * i) / 4) })),
+  // Eyes: outer (or inner) corner, two top points, other corner, two bottom points
+  ...ellipse(0.3, 0.36, 0.09, 0.035, range(6, i => Math.PI - (Math.PI * i) / 3)),
+  ...ellipse(0.7, 0.36, 0.09, 0.035, range(6, i => Math.PI - (Math.PI * i) / 3)),
+  // Outer and inner lip contours, clockwise from the left corner
+  ...ellipse(0.5, 0.78, 0.17, 0.06, range(12, i => Math.PI - (Math.PI * i) / 6)),
+  ...ellipse(0.5, 0.78, 0.11, 0.02, range(8, i => Math.PI - (Math.PI * i) / 4)),
+];
+
+const TEMPLATE_EYES: [Point, Point] = [{ x: 0.3, y: 0.36 }, { x: 0.7, y: 0.36 }];
+const TEMPLATE_MOUTH: Point = { x: 0.5, y: 0.78 };
+
+// Affine map taking three template points onto three image points
+function solveAffine(from: Point[], to: Point[]): (p: Point) => Point {
+  const [a, b, c] = from;
+  const det = a.x * (b.y - c.y) - a.y * (b.x - c.x) + (b.x * c.y - c.x * b.y);
+  const solve = (va: number, vb: number, vc: number) => [
+    (va * (b.y - c.y) - a.y * (vb - vc) + (vb * c.y - vc * b.y)) / det,
+    (a.x * (vb - vc) - va * (b.x - c.x) + (b.x * vc - c.x * vb)) / det,
+    (a.x * (b.y * vc - c.y * vb) - a.y * (b.x * vc - c.x * vb) + va * (b.x * c.y - c.x * b.y)) / det,
+  ];
+  const [xa, xb, xc] = solve(to[0].x, to[1].x, to[2].x);
+  const [ya, yb, yc] = solve(to[0].y, to[1].y, to[2].y);
+  return ({ x, y }) => ({ x: xa * x + xb * y + xc, y: ya * x + yb * y + yc });
+}
+
+// The template placed on the selection. Tapped points follow tilt and proportions;
+// the eyes may be tapped in either order.
+export function fitTemplate(selection: ManualFaceSelection): Point[] {
+  if (selection.kind === 'box') {
+    const { x, y, width, height } = selection.box;
+    return TEMPLATE.map(p => ({ x: x + p.x * width, y: y + p.y * height }));
+  }
+  const eyes = [...selection.eyes].sort((a, b) => a.x - b.x);
+  const map = solveAffine([...TEMPLATE_EYES, TEMPLATE_MOUTH], [...eyes, selection.mouth]);
+  return TEMPLATE.map(map);
+}
+
+// Region handed to the landmark model, matching what the detector would have boxed
+export function selectionBox(selection: ManualFaceSelection): Bounds {
+  return selection.kind === 'box' ? selection.box : polygonBounds(fitTemplate(selection));
+}
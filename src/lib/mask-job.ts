@@ -0,0 +1,207 @@
+import { detectFaceBoxes, detectFaces, detectLandmarks, ensureModels, scaleFaceDetection, type DetectorSettings, type FaceDetectionData } from "@/lib/face-detector";
+import { clampBounds } from "@/lib/geometry";
+import { fitTemplate, selectionBox, type ManualFaceSelection, type ManualFit } from "@/lib/manual-face";
+import { maskFaces, type FacePolygons, type FeatureMaskConfig, type MaskPipelineOptions } from "@/lib/masking";
+import { matchFace, shouldMask, type EnrolledFace, type FaceMatch, type RecognitionSettings } from "@/lib/recognition";
+import { assessReidentification, VERIFICATION_SCORE_THRESHOLD, type Redetection, type VerificationResult } from "@/lib/reidentification";
+import type * as faceapi from 'face-api.js';
+
+// The detect-then-mask work for one photo. It runs unchanged in the mask worker and,
+// when workers are unavailable, on the main thread.
+
+export interface MaskJobRequest {
+  // Previously detected faces; when given, detection is skipped
+  faces?: { detection: FaceDetectionData; enabled: boolean }[];
+  // Faces marked by hand, used instead of the detector when it finds nothing
+  manual?: { selections: ManualFaceSelection[]; fit: ManualFit };
+  detector: DetectorSettings;
+  options: MaskPipelineOptions;
+  // Re-run detection on the masked result to check it is no longer recognisable
+  verify?: { landmarks: boolean };
+  // Include/exclude rule against enrolled faces; applied when faces are freshly detected
+  recognition?: RecognitionSettings & { enrolled: Pick<EnrolledFace, 'id' | 'name' | 'descriptor'>[] };
+}
+
+export interface MaskJobResult {
+  faces: MaskedFace[];
+  // Feature erasure actually applied, saved with the result so it can be reproduced
+  featureConfig: FeatureMaskConfig;
+  verification: VerificationResult | null;
+}
+
+export interface MaskedFace {
+  detection: FaceDetectionData;
+  enabled: boolean;
+  skinColor: string;
+  skinConfidence: number;
+  // Outlines that were filled, in image coordinates
+  polygons: FacePolygons;
+  // Enrolled person this face matched, when recognition is in use
+  match: FaceMatch | null;
+}
+
+export type MaskJobStage = 'loading-models' | 'detecting' | 'masking' | 'verifying';
+
+// Thrown when the detector finds nothing, so the page can offer manual selection
+export class NoFaceDetectedError extends Error {
+  constructor() {
+    super('No face detected');
+    this.name = 'NoFaceDetectedError';
+  }
+}
+
+type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+function createCanvasLike(source: HTMLCanvasElement | OffscreenCanvas, width: number, height: number): HTMLCanvasElement | OffscreenCanvas {
+  if (typeof OffscreenCanvas !== 'undefined' && source instanceof OffscreenCanvas) {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+// Detectors are slow on 12+ megapixel photos and the tiny detector is less accurate on
+// them, so detection runs on a copy whose longest side is at most `maxSize`
+function detectionProxy(canvas: HTMLCanvasElement | OffscreenCanvas, maxSize: number) {
+  const scale = Math.min(1, maxSize / Math.max(canvas.width, canvas.height));
+  if (scale === 1) return { canvas, scale };
+
+  const proxy = createCanvasLike(canvas, Math.round(canvas.width * scale), Math.round(canvas.height * scale));
+  const ctx = proxy.getContext('2d') as Canvas2D;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(canvas, 0, 0, proxy.width, proxy.height);
+  return { canvas: proxy, scale: proxy.width / canvas.width };
+}
+
+// Landmarks for a hand-marked face, from the landmark net on the marked region or
+// from the template alone
+async function locateManualFace(
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  selection: ManualFaceSelection,
+  fit: ManualFit,
+  detector: DetectorSettings
+): Promise<FaceDetectionData> {
+  const box = clampBounds(selectionBox(selection), canvas.width, canvas.height);
+  // Hand-marked faces have no detector score
+  if (fit === 'template' || box.width < 1 || box.height < 1) return { box, score: 0, landmarks: fitTemplate(selection) };
+
+  const crop = createCanvasLike(canvas, box.width, box.height);
+  (crop.getContext('2d') as Canvas2D).drawImage(canvas, box.x, box.y, box.width, box.height, 0, 0, box.width, box.height);
+  const landmarks = await detectLandmarks(crop as unknown as faceapi.TNetInput, detector);
+  return { box, score: 0, landmarks: landmarks.map(p => ({ x: p.x + box.x, y: p.y + box.y })) };
+}
+
+// Detects faces with recognition descriptors, e.g. for enrolling reference faces
+export async function describeFaces(canvas: HTMLCanvasElement | OffscreenCanvas, detector: DetectorSettings): Promise<FaceDetectionData[]> {
+  const proxy = detectionProxy(canvas, detector.maxDetectionSize);
+  const detections = await detectFaces(proxy.canvas as unknown as faceapi.TNetInput, detector, { descriptors: true });
+  return detections.map(detection => scaleFaceDetection(detection, 1 / proxy.scale));
+}
+
+// `canvas` must already hold the photo; the masked pixels are written back into it
+export async function runMaskJob(
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  { faces, manual, detector, options, verify, recognition }: MaskJobRequest,
+  onProgress?: (stage: MaskJobStage) => void
+): Promise<MaskJobResult> {
+  const ctx = canvas.getContext('2d') as Canvas2D | null;
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+
+  let targets = faces;
+  if (!targets && manual) {
+    if (manual.fit === 'landmark-net') {
+      onProgress?.('loading-models');
+      await ensureModels(detector);
+      onProgress?.('detecting');
+    }
+    targets = await Promise.all(manual.selections.map(async selection => ({
+      detection: await locateManualFace(canvas, selection, manual.fit, detector),
+      enabled: true,
+    })));
+  }
+  if (!targets) {
+    onProgress?.('loading-models');
+    await ensureModels(detector);
+    onProgress?.('detecting');
+    const proxy = detectionProxy(canvas, detector.maxDetectionSize);
+    // OffscreenCanvas is accepted once the worker has patched face-api's environment
+    const detections = await detectFaces(proxy.canvas as unknown as faceapi.TNetInput, detector, {
+      descriptors: recognition !== undefined && recognition.rule !== 'all',
+    });
+    targets = detections.map(detection => ({ detection: scaleFaceDetection(detection, 1 / proxy.scale), enabled: true }));
+
+    // The rule only sets the initial selection; the user can still toggle faces afterwards
+    if (recognition) {
+      targets = targets.map(({ detection }) => ({
+        detection,
+        enabled: shouldMask(recognition.rule, faceMatch(detection, recognition), detection.descriptor !== undefined),
+      }));
+    }
+  }
+  if (targets.length === 0) throw new NoFaceDetectedError();
+
+  onProgress?.('masking');
+  const original = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const result = maskFaces(
+    original,
+    targets.map(({ detection, enabled }) => ({ landmarks: detection.landmarks, enabled })),
+    options
+  );
+  original.data.set(result.pixels.data);
+  ctx.putImageData(original, 0, 0);
+
+  const maskedFaces = result.faces.map((face, i) => ({
+    detection: targets[i].detection,
+    enabled: face.enabled,
+    skinColor: face.skinTone.color,
+    skinConfidence: face.skinTone.confidence,
+    polygons: face.polygons,
+    match: recognition ? faceMatch(targets[i].detection, recognition) : null,
+  }));
+
+  let verification: VerificationResult | null = null;
+  if (verify) {
+    onProgress?.('verifying');
+    verification = await verifyMasked(canvas, maskedFaces, detector, verify.landmarks);
+  }
+
+  return { faces: maskedFaces, featureConfig: result.features, verification };
+}
+
+function faceMatch({ descriptor }: FaceDetectionData, recognition: NonNullable<MaskJobRequest['recognition']>): FaceMatch | null {
+  return descriptor ? matchFace(descriptor, recognition.enrolled, recognition.threshold) : null;
+}
+
+// Checks an image that was masked earlier, e.g. the flattened layers before they are shared
+export async function verifyImage(
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  faces: { detection: FaceDetectionData; enabled: boolean }[],
+  detector: DetectorSettings,
+  withLandmarks: boolean
+): Promise<VerificationResult> {
+  await ensureModels(detector);
+  return verifyMasked(canvas, faces, detector, withLandmarks);
+}
+
+// Runs the detector (and optionally the landmark net) again on the masked pixels
+async function verifyMasked(
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  faces: { detection: FaceDetectionData; enabled: boolean }[],
+  detector: DetectorSettings,
+  withLandmarks: boolean
+): Promise<VerificationResult> {
+  const settings = { ...detector, scoreThreshold: VERIFICATION_SCORE_THRESHOLD };
+  const proxy = detectionProxy(canvas, detector.maxDetectionSize);
+  const input = proxy.canvas as unknown as faceapi.TNetInput;
+
+  const redetections: Redetection[] = withLandmarks
+    ? (await detectFaces(input, settings)).map(d => scaleFaceDetection(d, 1 / proxy.scale))
+    : (await detectFaceBoxes(input, settings)).map(({ box, score }) => {
+        const factor = 1 / proxy.scale;
+        return { box: { x: box.x * factor, y: box.y * factor, width: box.width * factor, height: box.height * factor }, score };
+      });
+
+  return assessReidentification(faces, redetections, withLandmarks);
+}
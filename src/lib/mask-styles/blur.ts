@@ -0,0 +1,15 @@
+import { cropToMask, fillMaskFromWindow } from "@/lib/masking/pixel-buffer";
+import { blurPixels } from "@/lib/masking/raster";
+import type { MaskStyle } from "./types";
+
+export const blurStyle: MaskStyle = {
+  id: 'blur',
+  label: 'Blur',
+  apply({ pixels, face }) {
+    // Strong enough that no feature survives, relative to the face size
+    const radius = Math.max(8, face.width / 6);
+    const window = cropToMask(pixels, face);
+    blurPixels(window, radius);
+    fillMaskFromWindow(pixels, face, window);
+  },
+};
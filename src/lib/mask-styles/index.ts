@@ -0,0 +1,24 @@
+import type { MaskStyle } from "./types";
+import { skinFillStyle } from "./skin-fill";
+import { pixelateStyle } from "./pixelate";
+import { blurStyle } from "./blur";
+import { silhouetteStyle } from "./silhouette";
+import { noiseStyle } from "./noise";
+
+export type { MaskStyle, MaskStyleInput } from "./types";
+
+// Order here is the order shown in the style selector. To add an effect, drop a
+// module next to these and register it below; detection code never needs to change.
+export const MASK_STYLES: MaskStyle[] = [
+  skinFillStyle,
+  pixelateStyle,
+  blurStyle,
+  silhouetteStyle,
+  noiseStyle,
+];
+
+export const DEFAULT_MASK_STYLE_ID = skinFillStyle.id;
+
+export function getMaskStyle(id: string): MaskStyle {
+  return MASK_STYLES.find(style => style.id === id) ?? skinFillStyle;
+}
@@ -0,0 +1,41 @@
+import { createPixelBuffer, fillMaskFromWindow } from "@/lib/masking/pixel-buffer";
+import type { MaskStyle } from "./types";
+
+// Small seeded PRNG (mulberry32) so the same face always gets the same static
+function seededRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// TV static: random grey levels, drawn at a small grain so it stays visible when the image is scaled down
+export const noiseStyle: MaskStyle = {
+  id: 'noise',
+  label: 'Static',
+  apply({ pixels, face }) {
+    const grain = Math.max(1, Math.round(face.width / 200));
+    const random = seededRandom(face.x * 73856093 ^ face.y * 19349663 ^ face.width);
+    const window = createPixelBuffer(face.width, face.height);
+
+    for (let gy = 0; gy < face.height; gy += grain) {
+      for (let gx = 0; gx < face.width; gx += grain) {
+        const value = Math.floor(random() * 256);
+        for (let y = gy; y < Math.min(face.height, gy + grain); y++) {
+          for (let x = gx; x < Math.min(face.width, gx + grain); x++) {
+            const idx = (y * face.width + x) * 4;
+            window.data[idx] = value;
+            window.data[idx + 1] = value;
+            window.data[idx + 2] = value;
+          }
+        }
+      }
+    }
+
+    fillMaskFromWindow(pixels, face, window);
+  },
+};
@@ -0,0 +1,42 @@
+import { cropToMask, fillMaskFromWindow } from "@/lib/masking/pixel-buffer";
+import type { MaskStyle } from "./types";
+
+// Roughly how many mosaic blocks span the face horizontally
+const BLOCKS_ACROSS = 10;
+
+export const pixelateStyle: MaskStyle = {
+  id: 'pixelate',
+  label: 'Pixelate',
+  apply({ pixels, face }) {
+    const window = cropToMask(pixels, face);
+    const { width, height, data } = window;
+    const blockSize = Math.max(4, Math.round(width / BLOCKS_ACROSS));
+
+    for (let by = 0; by < height; by += blockSize) {
+      for (let bx = 0; bx < width; bx += blockSize) {
+        const endX = Math.min(width, bx + blockSize);
+        const endY = Math.min(height, by + blockSize);
+        let r = 0, g = 0, b = 0;
+        for (let y = by; y < endY; y++) {
+          for (let x = bx; x < endX; x++) {
+            const idx = (y * width + x) * 4;
+            r += data[idx];
+            g += data[idx + 1];
+            b += data[idx + 2];
+          }
+        }
+        const count = (endX - bx) * (endY - by);
+        for (let y = by; y < endY; y++) {
+          for (let x = bx; x < endX; x++) {
+            const idx = (y * width + x) * 4;
+            data[idx] = r / count;
+            data[idx + 1] = g / count;
+            data[idx + 2] = b / count;
+          }
+        }
+      }
+    }
+
+    fillMaskFromWindow(pixels, face, window);
+  },
+};
@@ -0,0 +1,12 @@
+import { fillMask } from "@/lib/masking/pixel-buffer";
+import type { MaskStyle } from "./types";
+
+const SILHOUETTE_COLOR: [number, number, number] = [17, 17, 17];
+
+export const silhouetteStyle: MaskStyle = {
+  id: 'silhouette',
+  label: 'Silhouette',
+  apply({ pixels, face }) {
+    fillMask(pixels, face, SILHOUETTE_COLOR);
+  },
+};
@@ -0,0 +1,11 @@
+import { fillMask } from "@/lib/masking/pixel-buffer";
+import type { MaskStyle } from "./types";
+
+// The original Piper's Effect: flat skin tone over the face
+export const skinFillStyle: MaskStyle = {
+  id: 'skin-fill',
+  label: 'Skin fill',
+  apply({ pixels, face, skin }) {
+    fillMask(pixels, face, skin);
+  },
+};
@@ -0,0 +1,18 @@
+import type { Rgb } from "@/lib/color";
+import type { Mask, PixelBuffer } from "@/lib/masking/pixel-buffer";
+
+export interface MaskStyleInput {
+  // Output image; it already contains the photo and any faces masked before this one
+  pixels: PixelBuffer;
+  // The untouched photo, for effects that need the original pixels
+  source: PixelBuffer;
+  face: Mask;
+  skin: Rgb;
+}
+
+export interface MaskStyle {
+  id: string;
+  label: string;
+  // Modifies input.pixels in place
+  apply(input: MaskStyleInput): void;
+}
@@ -0,0 +1,45 @@
+// Which facial regions get erased and how. Saved with every result so the same
+// effect can be reproduced later.
+
+export type FeatureId = 'eyes' | 'brows' | 'nose' | 'mouth' | 'jaw' | 'ears';
+
+export type FeatureFill = 'black' | 'skin' | 'transparent' | 'blur';
+
+export interface FeatureSettings {
+  enabled: boolean;
+  fill: FeatureFill;
+  // How far the region's hull is dilated about its centroid; 1 is the tight hull
+  expansion: number;
+}
+
+export type FeatureMaskConfig = Record<FeatureId, FeatureSettings>;
+
+export const FEATURE_IDS: FeatureId[] = ['eyes', 'brows', 'nose', 'mouth', 'jaw', 'ears'];
+
+export const FEATURE_LABELS: Record<FeatureId, string> = {
+  eyes: 'Eyes',
+  brows: 'Eyebrows',
+  nose: 'Nose',
+  mouth: 'Mouth',
+  jaw: 'Jaw and chin',
+  ears: 'Ears',
+};
+
+export const FEATURE_FILLS: { id: FeatureFill; label: string }[] = [
+  { id: 'black', label: 'Black' },
+  { id: 'skin', label: 'Skin tone' },
+  { id: 'transparent', label: 'Transparent' },
+  { id: 'blur', label: 'Blur' },
+];
+
+export const EXPANSION_RANGE = { min: 1, max: 2.5, step: 0.1 };
+
+// The original effect: eyes, brows, nose and mouth blacked out
+export const DEFAULT_FEATURE_MASK_CONFIG: FeatureMaskConfig = {
+  eyes: { enabled: true, fill: 'black', expansion: 1.5 },
+  brows: { enabled: true, fill: 'black', expansion: 1.5 },
+  nose: { enabled: true, fill: 'black', expansion: 1.4 },
+  mouth: { enabled: true, fill: 'black', expansion: 1.5 },
+  jaw: { enabled: false, fill: 'black', expansion: 1.1 },
+  ears: { enabled: false, fill: 'skin', expansion: 1.2 },
+};
@@ -0,0 +1,46 @@
+import type { Rgb } from "@/lib/color";
+import type { FeatureFill } from "./feature-config";
+import { cropToMask, fillMask, fillMaskFromWindow, type Mask, type PixelBuffer } from "./pixel-buffer";
+import { blurPixels } from "./raster";
+
+export interface FeatureMask {
+  fill: FeatureFill;
+  mask: Mask;
+}
+
+// Lowers alpha by the mask's coverage, leaving colour untouched
+export function clearMask(pixels: PixelBuffer, mask: Mask) {
+  const { data } = pixels;
+  for (let row = 0; row < mask.height; row++) {
+    for (let col = 0; col < mask.width; col++) {
+      const alpha = mask.data[row * mask.width + col];
+      if (alpha <= 0) continue;
+      const idx = ((mask.y + row) * pixels.width + mask.x + col) * 4 + 3;
+      data[idx] *= 1 - alpha;
+    }
+  }
+}
+
+// Applies each feature's configured fill. `source` holds the pixels from before the
+// face was filled, so blurred features still show a (blurred) feature rather than flat skin.
+export function eraseFeatures(pixels: PixelBuffer, features: FeatureMask[], skin: Rgb, source: PixelBuffer = pixels) {
+  for (const { fill, mask } of features) {
+    switch (fill) {
+      case 'black':
+        fillMask(pixels, mask, [0, 0, 0]);
+        break;
+      case 'skin':
+        fillMask(pixels, mask, skin);
+        break;
+      case 'transparent':
+        clearMask(pixels, mask);
+        break;
+      case 'blur': {
+        const window = cropToMask(source, mask);
+        blurPixels(window, Math.max(4, Math.max(mask.width, mask.height) / 4));
+        fillMaskFromWindow(pixels, mask, window);
+        break;
+      }
+    }
+  }
+}
@@ -0,0 +1,9 @@
+// DOM-free masking core. Everything here works on plain pixel buffers and landmark
+// arrays, so it runs in the browser, in a worker or under Node.
+export * from "./pixel-buffer";
+export * from "./feature-config";
+export * from "./feature-fill";
+export * from "./raster";
+export * from "./regions";
+export * from "./pipeline";
+export * from "./layers";
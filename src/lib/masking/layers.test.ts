@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { BACKGROUND, FACE_BOX, faceLandmarks, facePhoto, IMAGE_SIZE, LEFT_EYE, pixelAt } from "@/test/fixtures";
+import { eraseCoverage, polygonsToSvg, renderCutout, renderMaskLayer } from "./layers";
+import { buildFacePolygons } from "./pipeline";
+
+const CHEEK = { x: FACE_BOX.x + 15, y: FACE_BOX.y + 70 };
+const CORNER = { x: 5, y: 5 };
+const polygons = [buildFacePolygons(faceLandmarks())];
+const coverageAt = (coverage: Float32Array, { x, y }: { x: number; y: number }) => coverage[y * IMAGE_SIZE + x];
+
+describe("eraseCoverage", () => {
+  it("covers the face and its features and nothing else", () => {
+    const coverage = eraseCoverage(IMAGE_SIZE, IMAGE_SIZE, polygons);
+
+    expect(coverageAt(coverage, CHEEK)).toBeCloseTo(1);
+    expect(coverageAt(coverage, { x: Math.round(LEFT_EYE.x), y: Math.round(LEFT_EYE.y) })).toBeCloseTo(1);
+    expect(coverageAt(coverage, CORNER)).toBe(0);
+  });
+});
+
+describe("renderCutout", () => {
+  it("makes the erased regions transparent and keeps the rest of the photo", () => {
+    const cutout = renderCutout(facePhoto(), polygons);
+
+    expect(pixelAt(cutout, CHEEK)[3]).toBe(0);
+    expect(pixelAt(cutout, CORNER)).toEqual([...BACKGROUND, 255]);
+  });
+});
+
+describe("renderMaskLayer", () => {
+  it("is white where erased and black elsewhere", () => {
+    const layer = renderMaskLayer(IMAGE_SIZE, IMAGE_SIZE, polygons);
+
+    expect(pixelAt(layer, CHEEK)).toEqual([255, 255, 255, 255]);
+    expect(pixelAt(layer, CORNER)).toEqual([0, 0, 0, 255]);
+  });
+});
+
+describe("polygonsToSvg", () => {
+  it("writes one group per face with a path per feature", () => {
+    const svg = polygonsToSvg(IMAGE_SIZE, IMAGE_SIZE, [...polygons, ...polygons]);
+
+    expect(svg).toContain(`viewBox="0 0 ${IMAGE_SIZE} ${IMAGE_SIZE}"`);
+    expect(svg.match(/<g id="face-\d">/g)).toEqual(['<g id="face-1">', '<g id="face-2">']);
+    expect(svg.match(/class="feature"/g)).toHaveLength(8);
+    expect(svg).toContain('data-feature="mouth" data-fill="black"');
+  });
+});
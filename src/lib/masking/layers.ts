@@ -0,0 +1,83 @@
+import type { Point } from "@/lib/geometry";
+import { clonePixelBuffer, createPixelBuffer, type Mask, type PixelBuffer } from "./pixel-buffer";
+import { rasterizeFeature, type FacePolygons } from "./pipeline";
+import { rasterizePolygon } from "./raster";
+
+// Layers for recompositing the effect in other tools. All of them come from the same
+// polygons the mask was rendered from, so they line up with the flattened image.
+
+function mergeMax(coverage: Float32Array, width: number, mask: Mask) {
+  for (let row = 0; row < mask.height; row++) {
+    for (let col = 0; col < mask.width; col++) {
+      const i = (mask.y + row) * width + mask.x + col;
+      coverage[i] = Math.max(coverage[i], mask.data[row * mask.width + col]);
+    }
+  }
+}
+
+// Per-pixel coverage (0..1) of everything erased: face outlines plus features, which
+// can reach outside the face (e.g. ears)
+export function eraseCoverage(width: number, height: number, faces: FacePolygons[]): Float32Array {
+  const coverage = new Float32Array(width * height);
+  for (const polygons of faces) {
+    const face = rasterizePolygon(polygons.face, width, height);
+    if (face) mergeMax(coverage, width, face);
+    for (const feature of polygons.features) {
+      const mask = rasterizeFeature(feature, width, height);
+      if (mask) mergeMax(coverage, width, mask.mask);
+    }
+  }
+  return coverage;
+}
+
+// The photo with every erased region made transparent
+export function renderCutout(source: PixelBuffer, faces: FacePolygons[]): PixelBuffer {
+  const cutout = clonePixelBuffer(source);
+  const coverage = eraseCoverage(source.width, source.height, faces);
+  for (let i = 0; i < coverage.length; i++) {
+    cutout.data[i * 4 + 3] *= 1 - coverage[i];
+  }
+  return cutout;
+}
+
+// Opaque greyscale matte: white where erased, black elsewhere
+export function renderMaskLayer(width: number, height: number, faces: FacePolygons[]): PixelBuffer {
+  const layer = createPixelBuffer(width, height);
+  const coverage = eraseCoverage(width, height, faces);
+  for (let i = 0; i < coverage.length; i++) {
+    const value = Math.round(coverage[i] * 255);
+    layer.data[i * 4] = value;
+    layer.data[i * 4 + 1] = value;
+    layer.data[i * 4 + 2] = value;
+    layer.data[i * 4 + 3] = 255;
+  }
+  return layer;
+}
+
+function pathData(points: Point[]): string {
+  const [first, ...rest] = points.map(({ x, y }) => `${x.toFixed(2)} ${y.toFixed(2)}`);
+  return first ? `M${first}${rest.map(p => ` L${p}`).join('')} Z` : '';
+}
+
+// Face and feature outlines as SVG paths in image pixel coordinates, one group per face
+export function polygonsToSvg(width: number, height: number, faces: FacePolygons[]): string {
+  const groups = faces.map((polygons, index) => {
+    const features = polygons.features.map(({ feature, fill, feather, points }) =>
+      `    <path class="feature" data-feature="${feature}" data-fill="${fill}" data-feather="${feather.toFixed(2)}" d="${pathData(points)}"/>`
+    );
+    return [
+      `  <g id="face-${index + 1}">`,
+      `    <path class="face" d="${pathData(polygons.face)}"/>`,
+      ...features,
+      '  </g>',
+    ].join('\n');
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    '  <style>.face { fill: #d3d3d3; } .feature { fill: #000; }</style>',
+    ...groups,
+    '</svg>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { MASK_STYLES } from "@/lib/mask-styles";
+import { BACKGROUND, FACE_BOX, faceLandmarks, facePhoto, LEFT_EYE, pixelAt, SKIN } from "@/test/fixtures";
+import { DEFAULT_FEATURE_MASK_CONFIG } from "./feature-config";
+import { maskFaces } from "./pipeline";
+
+// A cheek point well away from every feature
+const CHEEK = { x: FACE_BOX.x + 15, y: FACE_BOX.y + 70 };
+const CORNER = { x: 5, y: 5 };
+
+describe("maskFaces", () => {
+  it("fills the face with its skin tone and blacks out the features", () => {
+    const { pixels, faces, features } = maskFaces(facePhoto(), [{ landmarks: faceLandmarks(), enabled: true }]);
+
+    expect(pixelAt(pixels, LEFT_EYE)).toEqual([0, 0, 0, 255]);
+    pixelAt(pixels, CHEEK).slice(0, 3).forEach((channel, i) => expect(Math.abs(channel - SKIN[i])).toBeLessThanOrEqual(1));
+    expect(pixelAt(pixels, CORNER)).toEqual([...BACKGROUND, 255]);
+    expect(faces).toHaveLength(1);
+    expect(faces[0].polygons.features.map(feature => feature.feature)).toEqual(['eyes', 'eyes', 'nose', 'mouth']);
+    expect(features).toBe(DEFAULT_FEATURE_MASK_CONFIG);
+  });
+
+  it("leaves the source pixels untouched", () => {
+    const source = facePhoto();
+    const before = new Uint8ClampedArray(source.data);
+    maskFaces(source, [{ landmarks: faceLandmarks(), enabled: true }]);
+
+    expect(source.data).toEqual(before);
+  });
+
+  it("measures but does not draw faces that are switched off", () => {
+    const source = facePhoto();
+    const { pixels, faces } = maskFaces(source, [{ landmarks: faceLandmarks(), enabled: false }]);
+
+    expect(pixels.data).toEqual(source.data);
+    expect(faces[0].enabled).toBe(false);
+    expect(faces[0].skinTone.confidence).toBeGreaterThan(0);
+  });
+
+  it("gives a fixed feather to every feature when one is set", () => {
+    const { faces } = maskFaces(facePhoto(), [{ landmarks: faceLandmarks(), enabled: true }], { feather: 2 });
+    expect(faces[0].polygons.features.map(feature => feature.feather)).toEqual([2, 2, 2, 2]);
+  });
+
+  it("clears the alpha of features with the transparent fill", () => {
+    const features = {
+      ...DEFAULT_FEATURE_MASK_CONFIG,
+      eyes: { ...DEFAULT_FEATURE_MASK_CONFIG.eyes, fill: 'transparent' as const },
+      brows: { ...DEFAULT_FEATURE_MASK_CONFIG.brows, fill: 'transparent' as const },
+    };
+    const { pixels } = maskFaces(facePhoto(), [{ landmarks: faceLandmarks(), enabled: true }], { features });
+
+    expect(pixelAt(pixels, LEFT_EYE)[3]).toBe(0);
+    expect(pixelAt(pixels, CHEEK)[3]).toBe(255);
+  });
+
+  it.each(MASK_STYLES.map(style => style.id))("applies the feature fills with the %s style", styleId => {
+    const features = { ...DEFAULT_FEATURE_MASK_CONFIG, ears: { enabled: true, fill: 'black' as const, expansion: 1.2 } };
+    const { pixels, faces } = maskFaces(facePhoto(), [{ landmarks: faceLandmarks(), enabled: true }], { styleId, features });
+    const ear = faces[0].polygons.features.find(feature => feature.feature === 'ears')!.points;
+    const earCentre = { x: ear.reduce((sum, p) => sum + p.x, 0) / ear.length, y: ear.reduce((sum, p) => sum + p.y, 0) / ear.length };
+
+    expect(pixelAt(pixels, LEFT_EYE)).toEqual([0, 0, 0, 255]);
+    // The ear strip is narrow, so its feathered edge still reaches the centre a little
+    pixelAt(pixels, earCentre).slice(0, 3).forEach(channel => expect(channel).toBeLessThanOrEqual(8));
+  });
+});
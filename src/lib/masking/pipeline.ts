@@ -0,0 +1,135 @@
+import type { Rgb } from "@/lib/color";
+import { buildFaceRegion } from "@/lib/forehead";
+import { polygonBounds, type Point } from "@/lib/geometry";
+import { DEFAULT_MASK_STYLE_ID, getMaskStyle, type MaskStyle } from "@/lib/mask-styles";
+import { estimateSkinTone, type SkinToneEstimate } from "@/lib/skin-tone";
+import { DEFAULT_FEATURE_MASK_CONFIG, type FeatureFill, type FeatureId, type FeatureMaskConfig } from "./feature-config";
+import { eraseFeatures, type FeatureMask } from "./feature-fill";
+import { clonePixelBuffer, type PixelBuffer } from "./pixel-buffer";
+import { featherMask, rasterizePolygon } from "./raster";
+import { buildEraseRegion, featureRegions } from "./regions";
+
+// Soft edge as a fraction of the region's larger side, used when no feather is given
+const AUTO_FEATHER_RATIO = 0.08;
+
+export interface MaskFaceInput {
+  // The 68 landmark positions in image coordinates
+  landmarks: Point[];
+  enabled: boolean;
+}
+
+export interface MaskPipelineOptions {
+  styleId?: string;
+  // Soft edge of erased features in pixels; sized per feature when omitted
+  feather?: number;
+  // Search for the real hairline instead of using the geometric forehead estimate alone
+  hairlineSearch?: boolean;
+  // Catmull-Rom samples between landmark points; 1 keeps straight segments
+  smoothing?: number;
+  // Which features are erased, with what fill and expansion
+  features?: FeatureMaskConfig;
+}
+
+export interface FeaturePolygon {
+  feature: FeatureId;
+  fill: FeatureFill;
+  points: Point[];
+  feather: number;
+}
+
+export interface FacePolygons {
+  face: Point[];
+  features: FeaturePolygon[];
+}
+
+export interface MaskedFaceResult {
+  enabled: boolean;
+  skinTone: SkinToneEstimate;
+  polygons: FacePolygons;
+}
+
+export interface MaskPipelineResult {
+  pixels: PixelBuffer;
+  faces: MaskedFaceResult[];
+  // The feature configuration actually applied, kept so the result can be reproduced
+  features: FeatureMaskConfig;
+}
+
+interface PolygonOptions {
+  features?: FeatureMaskConfig;
+  feather?: number;
+  smoothing?: number;
+  // Original pixels and skin colour, given when the forehead should stop at the hairline
+  hairline?: { pixels: PixelBuffer; skin: Rgb };
+}
+
+// The final face outline and dilated, smoothed feature outlines for one face. These are
+// the exact shapes rendered, so exports and previews can reuse them.
+export function buildFacePolygons(
+  landmarks: Point[],
+  { features = DEFAULT_FEATURE_MASK_CONFIG, feather, smoothing = 8, hairline }: PolygonOptions = {}
+): FacePolygons {
+  return {
+    face: buildFaceRegion(landmarks, { hairline }),
+    features: featureRegions(landmarks, features, feather).map(region => {
+      const points = buildEraseRegion(region.points, region.scaleFactor, smoothing);
+      const bounds = polygonBounds(points);
+      return {
+        feature: region.feature,
+        fill: region.fill,
+        points,
+        feather: region.feather ?? Math.max(bounds.width, bounds.height) * AUTO_FEATHER_RATIO,
+      };
+    }),
+  };
+}
+
+// Feathered coverage of one feature outline, as rendered
+export function rasterizeFeature({ points, feather, fill }: FeaturePolygon, width: number, height: number): FeatureMask | null {
+  // Feather is a soft-edge width; the blur sigma is about half of it
+  const radius = feather / 2;
+  const mask = rasterizePolygon(points, width, height, Math.ceil(radius * 3));
+  return mask && { fill, mask: featherMask(mask, radius) };
+}
+
+// Draws one face's mask into `pixels` in place: the style over the face, then the
+// configured feature fills on top, whatever the style. Features can reach outside the
+// face (e.g. ears), so no style leaves them showing. `source` is the untouched photo and
+// defaults to `pixels` itself.
+export function renderFacePolygons(pixels: PixelBuffer, polygons: FacePolygons, skin: Rgb, style: MaskStyle, source: PixelBuffer = pixels) {
+  const face = rasterizePolygon(polygons.face, pixels.width, pixels.height);
+  if (!face) return;
+
+  const features = polygons.features
+    .map(feature => rasterizeFeature(feature, pixels.width, pixels.height))
+    .filter((feature): feature is FeatureMask => feature !== null);
+
+  style.apply({ pixels, source, face, skin });
+  eraseFeatures(pixels, features, skin, source);
+}
+
+// Headless masking pipeline: takes the photo's pixels and each face's landmarks and
+// returns new pixels plus the polygons that were filled. The source is not modified.
+export function maskFaces(source: PixelBuffer, faces: MaskFaceInput[], options: MaskPipelineOptions = {}): MaskPipelineResult {
+  const { styleId = DEFAULT_MASK_STYLE_ID, feather, hairlineSearch = false, smoothing, features = DEFAULT_FEATURE_MASK_CONFIG } = options;
+
+  // Sample every face from the untouched pixels before any mask is drawn
+  const results = faces.map(({ landmarks, enabled }) => {
+    const skinTone = estimateSkinTone(source, landmarks);
+    const polygons = buildFacePolygons(landmarks, {
+      features,
+      feather,
+      smoothing,
+      hairline: hairlineSearch ? { pixels: source, skin: skinTone.rgb } : undefined,
+    });
+    return { enabled, skinTone, polygons };
+  });
+
+  const pixels = clonePixelBuffer(source);
+  const style = getMaskStyle(styleId);
+  for (const face of results) {
+    if (face.enabled) renderFacePolygons(pixels, face.polygons, face.skinTone.rgb, style, source);
+  }
+
+  return { pixels, faces: results, features };
+}
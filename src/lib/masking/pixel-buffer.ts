@@ -0,0 +1,60 @@
+import type { Rgb } from "@/lib/color";
+
+// Anything with the shape of ImageData, so canvas pixels can be passed straight in
+export interface PixelBuffer {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// Coverage (0..1) of a region, stored only for the window of the image it touches
+export interface Mask {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+export function createPixelBuffer(width: number, height: number): PixelBuffer {
+  return { width, height, data: new Uint8ClampedArray(width * height * 4) };
+}
+
+export function clonePixelBuffer(pixels: PixelBuffer): PixelBuffer {
+  return { width: pixels.width, height: pixels.height, data: new Uint8ClampedArray(pixels.data) };
+}
+
+// Copies the mask's window out of the image, e.g. as input for a blur or mosaic
+export function cropToMask(pixels: PixelBuffer, mask: Mask): PixelBuffer {
+  const window = createPixelBuffer(mask.width, mask.height);
+  for (let row = 0; row < mask.height; row++) {
+    const start = ((mask.y + row) * pixels.width + mask.x) * 4;
+    window.data.set(pixels.data.subarray(start, start + mask.width * 4), row * mask.width * 4);
+  }
+  return window;
+}
+
+function blend(pixels: PixelBuffer, mask: Mask, colorAt: (i: number) => Rgb | Uint8ClampedArray) {
+  const { data } = pixels;
+  for (let row = 0; row < mask.height; row++) {
+    for (let col = 0; col < mask.width; col++) {
+      const i = row * mask.width + col;
+      const alpha = mask.data[i];
+      if (alpha <= 0) continue;
+      const color = colorAt(i);
+      const idx = ((mask.y + row) * pixels.width + mask.x + col) * 4;
+      data[idx] += (color[0] - data[idx]) * alpha;
+      data[idx + 1] += (color[1] - data[idx + 1]) * alpha;
+      data[idx + 2] += (color[2] - data[idx + 2]) * alpha;
+    }
+  }
+}
+
+export function fillMask(pixels: PixelBuffer, mask: Mask, color: Rgb) {
+  blend(pixels, mask, () => color);
+}
+
+// Blends a window buffer of the mask's size into the image through the mask
+export function fillMaskFromWindow(pixels: PixelBuffer, mask: Mask, window: PixelBuffer) {
+  blend(pixels, mask, i => window.data.subarray(i * 4, i * 4 + 3));
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { rasterizePolygon } from "./raster";
+
+const sum = (data: Float32Array) => data.reduce((total, value) => total + value, 0);
+
+describe("rasterizePolygon", () => {
+  it("fully covers the pixels inside an axis-aligned rectangle", () => {
+    const mask = rasterizePolygon([{ x: 2, y: 3 }, { x: 8, y: 3 }, { x: 8, y: 7 }, { x: 2, y: 7 }], 10, 10)!;
+
+    expect({ x: mask.x, y: mask.y, width: mask.width, height: mask.height }).toEqual({ x: 2, y: 3, width: 6, height: 4 });
+    mask.data.forEach(value => expect(value).toBeCloseTo(1));
+  });
+
+  it("gives edge pixels their partial coverage", () => {
+    const mask = rasterizePolygon([{ x: 2.5, y: 3 }, { x: 8, y: 3 }, { x: 8, y: 7 }, { x: 2.5, y: 7 }], 10, 10)!;
+
+    expect(mask.x).toBe(2);
+    expect(mask.data[0]).toBeCloseTo(0.5);
+    expect(mask.data[1]).toBeCloseTo(1);
+    expect(sum(mask.data)).toBeCloseTo(5.5 * 4);
+  });
+
+  it("keeps the covered area of a triangle", () => {
+    const mask = rasterizePolygon([{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 0, y: 10 }], 20, 20)!;
+    expect(sum(mask.data)).toBeCloseTo(50, 0);
+  });
+
+  it("grows the window by the padding, clamped to the image, without covering it", () => {
+    const mask = rasterizePolygon([{ x: 2, y: 3 }, { x: 8, y: 3 }, { x: 8, y: 7 }, { x: 2, y: 7 }], 10, 10, 2)!;
+
+    expect({ x: mask.x, y: mask.y, width: mask.width, height: mask.height }).toEqual({ x: 0, y: 1, width: 10, height: 8 });
+    expect(sum(mask.data)).toBeCloseTo(24);
+    expect(mask.data[0]).toBe(0);
+  });
+
+  it("clips polygons that leave the image", () => {
+    const mask = rasterizePolygon([{ x: -5, y: -5 }, { x: 5, y: -5 }, { x: 5, y: 5 }, { x: -5, y: 5 }], 10, 10)!;
+
+    expect({ x: mask.x, y: mask.y, width: mask.width, height: mask.height }).toEqual({ x: 0, y: 0, width: 5, height: 5 });
+    expect(sum(mask.data)).toBeCloseTo(25);
+  });
+
+  it("returns null for polygons off the image or with fewer than three points", () => {
+    expect(rasterizePolygon([{ x: 20, y: 20 }, { x: 30, y: 20 }, { x: 30, y: 30 }], 10, 10)).toBeNull();
+    expect(rasterizePolygon([{ x: 1, y: 1 }, { x: 5, y: 5 }], 10, 10)).toBeNull();
+  });
+});
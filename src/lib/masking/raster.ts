@@ -0,0 +1,97 @@
+import { clampBounds, polygonBounds, type Point } from "@/lib/geometry";
+import type { Mask, PixelBuffer } from "./pixel-buffer";
+
+// Vertical subsamples per pixel row; horizontal edges get exact span coverage
+const SUBSAMPLES = 4;
+
+// Even-odd scanline fill with anti-aliased edges. `padding` grows the window so a
+// later feather has room to spread. Returns null when the polygon is off the image.
+export function rasterizePolygon(points: Point[], imageWidth: number, imageHeight: number, padding: number = 0): Mask | null {
+  if (points.length < 3) return null;
+
+  const raw = polygonBounds(points);
+  const bounds = clampBounds(
+    { x: raw.x - padding, y: raw.y - padding, width: raw.width + padding * 2, height: raw.height + padding * 2 },
+    imageWidth,
+    imageHeight
+  );
+  if (bounds.width === 0 || bounds.height === 0) return null;
+
+  const mask: Mask = { ...bounds, data: new Float32Array(bounds.width * bounds.height) };
+  const weight = 1 / SUBSAMPLES;
+  const crossings: number[] = [];
+
+  for (let row = 0; row < mask.height; row++) {
+    for (let s = 0; s < SUBSAMPLES; s++) {
+      const y = mask.y + row + (s + 0.5) / SUBSAMPLES;
+
+      crossings.length = 0;
+      for (let i = 0; i < points.length; i++) {
+        const a = points[i];
+        const b = points[(i + 1) % points.length];
+        if ((a.y <= y && b.y > y) || (b.y <= y && a.y > y)) {
+          crossings.push(a.x + ((y - a.y) / (b.y - a.y)) * (b.x - a.x));
+        }
+      }
+      crossings.sort((p, q) => p - q);
+
+      for (let i = 0; i + 1 < crossings.length; i += 2) {
+        const x0 = Math.max(mask.x, crossings[i]) - mask.x;
+        const x1 = Math.min(mask.x + mask.width, crossings[i + 1]) - mask.x;
+        if (x1 <= x0) continue;
+
+        const first = Math.floor(x0);
+        const last = Math.floor(x1);
+        const offset = row * mask.width;
+        if (first === last) {
+          mask.data[offset + first] += (x1 - x0) * weight;
+          continue;
+        }
+        mask.data[offset + first] += (first + 1 - x0) * weight;
+        for (let x = first + 1; x < last; x++) mask.data[offset + x] += weight;
+        if (last < mask.width) mask.data[offset + last] += (x1 - last) * weight;
+      }
+    }
+  }
+  return mask;
+}
+
+// Running-sum box blur of one line with clamped edges
+function blurLine(src: Float32Array, dst: Float32Array, offset: number, stride: number, length: number, radius: number) {
+  const last = length - 1;
+  const at = (i: number) => src[offset + Math.min(last, Math.max(0, i)) * stride];
+  const scale = 1 / (radius * 2 + 1);
+  let sum = 0;
+  for (let i = -radius; i <= radius; i++) sum += at(i);
+  for (let i = 0; i < length; i++) {
+    dst[offset + i * stride] = sum * scale;
+    sum += at(i + radius + 1) - at(i - radius);
+  }
+}
+
+// Three box passes approximate a gaussian with sigma close to `radius`
+export function blurChannel(channel: Float32Array, width: number, height: number, radius: number, passes: number = 3) {
+  const r = Math.round(radius);
+  if (r < 1) return;
+  const scratch = new Float32Array(channel.length);
+  for (let pass = 0; pass < passes; pass++) {
+    for (let row = 0; row < height; row++) blurLine(channel, scratch, row * width, 1, width, r);
+    for (let col = 0; col < width; col++) blurLine(scratch, channel, col, width, height, r);
+  }
+}
+
+// Softens the mask edge in place
+export function featherMask(mask: Mask, radius: number): Mask {
+  blurChannel(mask.data, mask.width, mask.height, radius);
+  return mask;
+}
+
+export function blurPixels(pixels: PixelBuffer, radius: number) {
+  const size = pixels.width * pixels.height;
+  const channel = new Float32Array(size);
+  for (let c = 0; c < 3; c++) {
+    for (let i = 0; i < size; i++) channel[i] = pixels.data[i * 4 + c];
+    blurChannel(channel, pixels.width, pixels.height, radius);
+    for (let i = 0; i < size; i++) pixels.data[i * 4 + c] = channel[i];
+  }
+}
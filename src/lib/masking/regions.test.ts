@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { polygonBounds } from "@/lib/geometry";
+import { faceLandmarks } from "@/test/fixtures";
+import { DEFAULT_FEATURE_MASK_CONFIG, type FeatureMaskConfig } from "./feature-config";
+import { buildEraseRegion, featureRegions, LANDMARK_COUNT, LANDMARK_GROUPS } from "./regions";
+
+const withFeatures = (patch: Partial<FeatureMaskConfig>): FeatureMaskConfig => ({ ...DEFAULT_FEATURE_MASK_CONFIG, ...patch });
+
+describe("featureRegions", () => {
+  const lm = faceLandmarks();
+
+  it("erases eyes and brows with the same fill as one region per side", () => {
+    const regions = featureRegions(lm, DEFAULT_FEATURE_MASK_CONFIG);
+
+    expect(regions.map(region => region.feature)).toEqual(['eyes', 'eyes', 'nose', 'mouth']);
+    // Six eye points and five brow points per side
+    expect(regions[0].points).toEqual([...lm.slice(36, 42), ...lm.slice(17, 22)]);
+    expect(regions[1].points).toEqual([...lm.slice(42, 48), ...lm.slice(22, 27)]);
+  });
+
+  it("dilates merged eye regions by the larger expansion", () => {
+    const config = withFeatures({
+      eyes: { enabled: true, fill: 'black', expansion: 1.2 },
+      brows: { enabled: true, fill: 'black', expansion: 1.8 },
+    });
+    const eyes = featureRegions(lm, config).filter(region => region.feature === 'eyes');
+    expect(eyes.map(region => region.scaleFactor)).toEqual([1.8, 1.8]);
+  });
+
+  it("keeps eyes and brows apart when their fills differ", () => {
+    const config = withFeatures({ brows: { enabled: true, fill: 'skin', expansion: 1.5 } });
+    const regions = featureRegions(lm, config);
+
+    expect(regions.map(region => [region.feature, region.fill])).toEqual([
+      ['eyes', 'black'],
+      ['eyes', 'black'],
+      ['brows', 'skin'],
+      ['brows', 'skin'],
+      ['nose', 'black'],
+      ['mouth', 'black'],
+    ]);
+  });
+
+  it("leaves out disabled features and passes the feather through", () => {
+    const config = withFeatures({
+      eyes: { ...DEFAULT_FEATURE_MASK_CONFIG.eyes, enabled: false },
+      brows: { ...DEFAULT_FEATURE_MASK_CONFIG.brows, enabled: false },
+      nose: { ...DEFAULT_FEATURE_MASK_CONFIG.nose, enabled: false },
+    });
+    const regions = featureRegions(lm, config, 3);
+
+    expect(regions.map(region => region.feature)).toEqual(['mouth']);
+    expect(regions[0].feather).toBe(3);
+  });
+
+  it("places the ears outside the jaw line", () => {
+    const config = withFeatures({ ears: { enabled: true, fill: 'skin', expansion: 1.2 } });
+    const [left, right] = featureRegions(lm, config).filter(region => region.feature === 'ears');
+
+    expect(polygonBounds(left.points).x).toBeLessThan(lm[0].x);
+    expect(polygonBounds(right.points).x + polygonBounds(right.points).width).toBeGreaterThan(lm[16].x);
+  });
+});
+
+describe("buildEraseRegion", () => {
+  const square = [{ x: 10, y: 10 }, { x: 20, y: 10 }, { x: 20, y: 20 }, { x: 10, y: 20 }, { x: 15, y: 15 }];
+
+  it("dilates the hull about its centroid and drops interior points", () => {
+    const region = buildEraseRegion(square, 2, 1);
+
+    expect(region).toHaveLength(4);
+    expect(polygonBounds(region)).toEqual({ x: 5, y: 5, width: 20, height: 20 });
+  });
+
+  it("smooths the outline through the hull's corners", () => {
+    const region = buildEraseRegion(square, 1, 8);
+    const corners = region.filter((_, i) => i % 8 === 0);
+
+    expect(region).toHaveLength(32);
+    expect(corners).toEqual(expect.arrayContaining(square.slice(0, 4)));
+  });
+});
+
+describe("LANDMARK_GROUPS", () => {
+  it("covers every landmark once, in order", () => {
+    const indices = LANDMARK_GROUPS.flatMap(({ range: [start, end] }) => Array.from({ length: end - start }, (_, i) => start + i));
+    expect(indices).toEqual(Array.from({ length: LANDMARK_COUNT }, (_, i) => i));
+  });
+});
@@ -0,0 +1,101 @@
+import { convexHull, scalePolygon, smoothPolygon, type Point } from "@/lib/geometry";
+import type { FeatureFill, FeatureId, FeatureMaskConfig } from "./feature-config";
+
+// Index ranges of the 68-point (iBUG) layout used by face-api.js
+const JAW = [0, 17];
+const LEFT_BROW = [17, 22];
+const RIGHT_BROW = [22, 27];
+const NOSE = [27, 36];
+const LEFT_EYE = [36, 42];
+const RIGHT_EYE = [42, 48];
+const MOUTH = [48, 68];
+const LOWER_LIP = [55, 60];
+
+export const LANDMARK_COUNT = 68;
+
+export interface LandmarkGroup {
+  id: string;
+  label: string;
+  // [start, end) into the landmark array
+  range: number[];
+  // Whether the outline joins back to its first point
+  closed: boolean;
+}
+
+// The landmark layout by feature, e.g. for drawing or editing the points
+export const LANDMARK_GROUPS: LandmarkGroup[] = [
+  { id: 'jaw', label: 'Jaw', range: JAW, closed: false },
+  { id: 'left-brow', label: 'Left brow', range: LEFT_BROW, closed: false },
+  { id: 'right-brow', label: 'Right brow', range: RIGHT_BROW, closed: false },
+  { id: 'nose', label: 'Nose', range: NOSE, closed: false },
+  { id: 'left-eye', label: 'Left eye', range: LEFT_EYE, closed: true },
+  { id: 'right-eye', label: 'Right eye', range: RIGHT_EYE, closed: true },
+  { id: 'mouth', label: 'Mouth', range: MOUTH, closed: true },
+];
+
+// Ears are not part of the landmark set; they are placed outside the upper jaw,
+// this wide relative to the face
+const EAR_WIDTH_RATIO = 0.15;
+
+const group = (lm: Point[], [start, end]: number[]) => lm.slice(start, end);
+
+export interface FeatureRegion {
+  feature: FeatureId;
+  fill: FeatureFill;
+  points: Point[];
+  scaleFactor: number;
+  // Soft edge in pixels; sized from the region when omitted
+  feather?: number;
+}
+
+// Jaw points from the temple down to about mouth level, pushed outwards along the face
+function earPoints(lm: Point[], side: 'left' | 'right'): Point[] {
+  const jaw = group(lm, JAW);
+  // Image left is jaw point 0; the jaw's end-to-end vector gives the outward direction
+  const sign = side === 'left' ? -1 : 1;
+  const dx = (jaw[16].x - jaw[0].x) * EAR_WIDTH_RATIO * sign;
+  const dy = (jaw[16].y - jaw[0].y) * EAR_WIDTH_RATIO * sign;
+  const edge = side === 'left' ? jaw.slice(0, 4) : jaw.slice(13, 17);
+  return [...edge, ...edge.map(p => ({ x: p.x + dx, y: p.y + dy }))];
+}
+
+// Landmark groups that get erased under `config`, with how far each is dilated
+export function featureRegions(lm: Point[], config: FeatureMaskConfig, feather?: number): FeatureRegion[] {
+  const regions: FeatureRegion[] = [];
+  const add = (feature: FeatureId, points: Point[], scaleFactor = config[feature].expansion) => {
+    regions.push({ feature, fill: config[feature].fill, points, scaleFactor, feather });
+  };
+  const { eyes, brows } = config;
+
+  // Eyes and brows with the same fill are erased as one region per side, so the
+  // skin between them goes too
+  if (eyes.enabled && brows.enabled && eyes.fill === brows.fill) {
+    const scaleFactor = Math.max(eyes.expansion, brows.expansion);
+    add('eyes', [...group(lm, LEFT_EYE), ...group(lm, LEFT_BROW)], scaleFactor);
+    add('eyes', [...group(lm, RIGHT_EYE), ...group(lm, RIGHT_BROW)], scaleFactor);
+  } else {
+    if (eyes.enabled) {
+      add('eyes', group(lm, LEFT_EYE));
+      add('eyes', group(lm, RIGHT_EYE));
+    }
+    if (brows.enabled) {
+      add('brows', group(lm, LEFT_BROW));
+      add('brows', group(lm, RIGHT_BROW));
+    }
+  }
+  if (config.nose.enabled) add('nose', group(lm, NOSE));
+  if (config.mouth.enabled) add('mouth', group(lm, MOUTH));
+  if (config.jaw.enabled) add('jaw', [...lm.slice(3, 14), ...group(lm, LOWER_LIP)]);
+  if (config.ears.enabled) {
+    add('ears', earPoints(lm, 'left'));
+    add('ears', earPoints(lm, 'right'));
+  }
+  return regions;
+}
+
+// Builds the outline actually filled for a landmark group: hull, dilated about its
+// centroid by scaleFactor, then smoothed so the cut-out follows a curve instead of
+// the jagged landmark polyline.
+export function buildEraseRegion(points: Point[], scaleFactor: number = 1, smoothing: number = 8): Point[] {
+  return smoothPolygon(scalePolygon(convexHull(points), scaleFactor), smoothing);
+}
@@ -0,0 +1,230 @@
+import * as faceapi from 'face-api.js';
+import { withBasePath } from '@/lib/base-path';
+
+// Downloads face-api weights with progress, keeps them in Cache Storage so later visits
+// load offline, and checks every file against its manifest before a net is built from it.
+
+export const MODEL_URL = withBasePath('/models');
+
+// Bump when the weight files change, so stale caches are dropped
+const CACHE_NAME = 'face-models-v1';
+
+export type ModelId = 'tiny-detector' | 'ssd-detector' | 'landmarks' | 'landmarks-tiny' | 'recognition';
+
+interface ModelDefinition {
+  label: string;
+  // Manifest is `${name}-weights_manifest.json`, as published with face-api.js
+  name: string;
+  net: faceapi.NeuralNetwork<unknown>;
+}
+
+export const MODELS: Record<ModelId, ModelDefinition> = {
+  'tiny-detector': { label: 'Face detector', name: 'tiny_face_detector_model', net: faceapi.nets.tinyFaceDetector },
+  'ssd-detector': { label: 'Accurate face detector', name: 'ssd_mobilenetv1_model', net: faceapi.nets.ssdMobilenetv1 },
+  landmarks: { label: 'Facial landmarks', name: 'face_landmark_68_model', net: faceapi.nets.faceLandmark68Net },
+  'landmarks-tiny': { label: 'Fast facial landmarks', name: 'face_landmark_68_tiny_model', net: faceapi.nets.faceLandmark68TinyNet },
+  recognition: { label: 'Face recognition', name: 'face_recognition_model', net: faceapi.nets.faceRecognitionNet },
+};
+
+export type ModelStatus =
+  | { state: 'idle' }
+  // total is null until the manifest has been read
+  | { state: 'loading'; loaded: number; total: number | null }
+  | { state: 'ready'; cached: boolean }
+  | { state: 'error'; message: string };
+
+export type ModelStates = Record<ModelId, ModelStatus>;
+
+export class ModelVerificationError extends Error {
+  constructor(model: ModelId, reason: string) {
+    super(`${MODELS[model].label} weights failed verification: ${reason}`);
+    this.name = 'ModelVerificationError';
+  }
+}
+
+type Listener = (states: ModelStates) => void;
+
+let states = Object.fromEntries(
+  Object.keys(MODELS).map(id => [id, { state: 'idle' }])
+) as ModelStates;
+const listeners = new Set<Listener>();
+const pendingLoads = new Map<ModelId, Promise<void>>();
+
+function setStatus(id: ModelId, status: ModelStatus) {
+  states = { ...states, [id]: status };
+  listeners.forEach(listener => listener(states));
+}
+
+export function getModelStates(): ModelStates {
+  return states;
+}
+
+// Calls `listener` with the current states now and after every change
+export function subscribeModelStates(listener: Listener): () => void {
+  listeners.add(listener);
+  listener(states);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+const BYTES_PER_ELEMENT: Record<string, number> = { float32: 4, int32: 4, bool: 1, uint8: 1, uint16: 2 };
+
+// Size a weight takes in the shard files; quantized weights are stored as uint8/uint16
+function entryByteSize(entry: faceapi.tf.io.WeightsManifestEntry): number {
+  const elements = entry.shape.reduce((product, size) => product * size, 1);
+  return elements * BYTES_PER_ELEMENT[entry.quantization?.dtype ?? entry.dtype];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+function isManifestEntry(entry: unknown): entry is faceapi.tf.io.WeightsManifestEntry {
+  if (!isRecord(entry)) return false;
+  const dtype = isRecord(entry.quantization) ? entry.quantization.dtype : entry.dtype;
+  return typeof entry.name === 'string'
+    && Array.isArray(entry.shape) && entry.shape.every(Number.isInteger)
+    && typeof dtype === 'string' && dtype in BYTES_PER_ELEMENT;
+}
+
+function isManifest(manifest: unknown): manifest is faceapi.tf.io.WeightsManifestConfig {
+  return Array.isArray(manifest) && manifest.length > 0 && manifest.every(group =>
+    isRecord(group)
+    && Array.isArray(group.paths) && group.paths.length > 0 && group.paths.every(path => typeof path === 'string')
+    && Array.isArray(group.weights) && group.weights.every(isManifestEntry)
+  );
+}
+
+function verifyManifest(id: ModelId, manifest: unknown): faceapi.tf.io.WeightsManifestConfig {
+  if (!isManifest(manifest)) throw new ModelVerificationError(id, 'the manifest is malformed');
+  return manifest;
+}
+
+async function openCache(): Promise<Cache | null> {
+  try {
+    // Cache Storage only exists in secure contexts; without it weights are just fetched
+    return typeof caches === 'undefined' ? null : await caches.open(CACHE_NAME);
+  } catch {
+    return null;
+  }
+}
+
+// Reads a response body in chunks so download progress can be reported
+async function readWithProgress(response: Response, onChunk: (bytes: number) => void): Promise<Uint8Array> {
+  if (!response.body) {
+    const buffer = new Uint8Array(await response.arrayBuffer());
+    onChunk(buffer.byteLength);
+    return buffer;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    length += value.byteLength;
+    onChunk(value.byteLength);
+  }
+
+  const buffer = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    buffer.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return buffer;
+}
+
+// Cached response when there is one, otherwise the network (and the response is cached)
+async function fetchCached(cache: Cache | null, url: string): Promise<{ response: Response; cached: boolean }> {
+  const hit = await cache?.match(url);
+  if (hit) return { response: hit, cached: true };
+
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+  return { response, cached: false };
+}
+
+async function downloadModel(id: ModelId) {
+  const { name, net } = MODELS[id];
+  const cache = await openCache();
+  setStatus(id, { state: 'loading', loaded: 0, total: null });
+
+  const manifestUrl = `${MODEL_URL}/${name}-weights_manifest.json`;
+  const manifestResult = await fetchCached(cache, manifestUrl);
+  const manifestBody = await manifestResult.response.clone().text();
+  let manifestJson: unknown;
+  try {
+    manifestJson = JSON.parse(manifestBody);
+  } catch {
+    throw new ModelVerificationError(id, 'the manifest is not JSON');
+  }
+  const manifest = verifyManifest(id, manifestJson);
+
+  const total = manifest.reduce((sum, group) => sum + group.weights.reduce((size, entry) => size + entryByteSize(entry), 0), 0);
+  let loaded = 0;
+  let allCached = manifestResult.cached;
+  setStatus(id, { state: 'loading', loaded, total });
+
+  const weightMap: faceapi.tf.NamedTensorMap = {};
+  const toCache: [string, Response][] = [];
+  for (const group of manifest) {
+    const shards: Uint8Array[] = [];
+    const shardUrls = group.paths.map(path => `${MODEL_URL}/${path}`);
+    for (const url of shardUrls) {
+      const { response, cached } = await fetchCached(cache, url);
+      allCached &&= cached;
+      const bytes = await readWithProgress(response, size => {
+        loaded += size;
+        setStatus(id, { state: 'loading', loaded, total });
+      });
+      shards.push(bytes);
+      if (!cached) toCache.push([url, new Response(bytes)]);
+    }
+
+    const expected = group.weights.reduce((size, entry) => size + entryByteSize(entry), 0);
+    const actual = shards.reduce((size, shard) => size + shard.byteLength, 0);
+    if (actual !== expected) {
+      // A truncated or mismatched shard must not stay cached
+      await Promise.all(shardUrls.map(url => cache?.delete(url)));
+      throw new ModelVerificationError(id, `expected ${expected} bytes of weights, got ${actual}`);
+    }
+
+    const buffer = new Uint8Array(actual);
+    let offset = 0;
+    for (const shard of shards) {
+      buffer.set(shard, offset);
+      offset += shard.byteLength;
+    }
+    Object.assign(weightMap, faceapi.tf.io.decodeWeights(buffer.buffer, group.weights));
+  }
+
+  net.loadFromWeightMap(weightMap);
+
+  // Only verified files are cached
+  if (cache) {
+    if (!manifestResult.cached) toCache.push([manifestUrl, new Response(manifestBody)]);
+    await Promise.all(toCache.map(([url, response]) => cache.put(url, response))).catch(error => {
+      console.warn("Could not cache face model weights:", error);
+    });
+  }
+  setStatus(id, { state: 'ready', cached: allCached });
+}
+
+// Loads a model once; concurrent callers share the same request, and a failed load can
+// be retried by calling again
+export function loadModel(id: ModelId): Promise<void> {
+  if (MODELS[id].net.isLoaded) return Promise.resolve();
+  let pending = pendingLoads.get(id);
+  if (!pending) {
+    pending = downloadModel(id)
+      .catch(error => {
+        setStatus(id, { state: 'error', message: error?.message ?? String(error) });
+        throw error;
+      })
+      .finally(() => pendingLoads.delete(id));
+    pendingLoads.set(id, pending);
+  }
+  return pending;
+}
@@ -0,0 +1,26 @@
+import type { Point } from "@/lib/geometry";
+
+export function clampToImage(point: Point, width: number, height: number): Point {
+  return {
+    x: Math.min(width, Math.max(0, point.x)),
+    y: Math.min(height, Math.max(0, point.y)),
+  };
+}
+
+// Maps a pointer position to image pixels through an SVG overlay whose viewBox is the
+// image size. The screen transform covers any CSS scaling of the displayed image.
+export function svgPointToImage(svg: SVGSVGElement, clientX: number, clientY: number, width: number, height: number): Point | null {
+  const matrix = svg.getScreenCTM();
+  if (!matrix) return null;
+  return clampToImage(new DOMPoint(clientX, clientY).matrixTransform(matrix.inverse()), width, height);
+}
+
+// Same for a canvas or other element stretched over the image with CSS
+export function elementPointToImage(element: Element, clientX: number, clientY: number, width: number, height: number): Point | null {
+  const rect = element.getBoundingClientRect();
+  if (rect.width === 0 || rect.height === 0) return null;
+  return clampToImage({
+    x: ((clientX - rect.left) / rect.width) * width,
+    y: ((clientY - rect.top) / rect.height) * height,
+  }, width, height);
+}
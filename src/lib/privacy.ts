@@ -0,0 +1,235 @@
+import { detectContainer } from "@/lib/exif";
+import { canvasToBlob } from "@/lib/image-utils";
+
+// Metadata that can identify a person, place or device
+export type MetadataKind =
+  | 'exif'
+  | 'gps'
+  | 'maker-notes'
+  | 'thumbnail'
+  | 'xmp'
+  | 'iptc'
+  | 'icc-profile'
+  | 'comment'
+  | 'text'
+  | 'timestamp'
+  | 'vendor-data';
+
+export const METADATA_LABELS: Record<MetadataKind, string> = {
+  exif: 'EXIF camera data (device, lens, settings, dates)',
+  gps: 'GPS location',
+  'maker-notes': 'Camera maker notes (may include serial numbers)',
+  thumbnail: 'Embedded thumbnail of the unmasked photo',
+  xmp: 'XMP metadata (editing history, author)',
+  iptc: 'IPTC captions, keywords and credits',
+  'icc-profile': 'ICC colour profile and its comments',
+  comment: 'Image comments',
+  text: 'Text chunks (software, author, description)',
+  timestamp: 'Modification timestamp',
+  'vendor-data': 'Other vendor-specific data',
+};
+
+export interface PrivacyReport {
+  // What the original photo carried and the exported file does not
+  removed: MetadataKind[];
+  // Result of scanning the exported bytes; always true for a report that was returned
+  verified: boolean;
+  format: 'image/png';
+  width: number;
+  height: number;
+  byteSize: number;
+}
+
+export class PrivacyError extends Error {
+  constructor(public readonly found: MetadataKind[]) {
+    super(`Exported image still contains metadata: ${found.join(', ')}`);
+    this.name = 'PrivacyError';
+  }
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Chunks needed to decode the image and display its colours correctly. Everything
+// else (text, eXIf, iCCP, tIME, pHYs, vendor chunks) is dropped on export.
+const PNG_KEEP = new Set(['IHDR', 'PLTE', 'tRNS', 'sRGB', 'gAMA', 'cHRM', 'IDAT', 'IEND']);
+
+const PNG_CHUNK_KINDS: Record<string, MetadataKind> = {
+  eXIf: 'exif',
+  tEXt: 'text',
+  zTXt: 'text',
+  iTXt: 'text',
+  iCCP: 'icc-profile',
+  tIME: 'timestamp',
+};
+
+const EXIF_GPS_POINTER = 0x8825;
+const EXIF_SUB_IFD_POINTER = 0x8769;
+const EXIF_MAKER_NOTE = 0x927c;
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+function isPng(bytes: Uint8Array): boolean {
+  return PNG_SIGNATURE.every((b, i) => bytes[i] === b);
+}
+
+function* pngChunks(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = ascii(bytes, offset + 4, 4);
+    const end = offset + 12 + length;
+    yield { type, start: offset, end: Math.min(end, bytes.length) };
+    if (type === 'IEND') return;
+    offset = end;
+  }
+}
+
+// Reads IFD0 (and its Exif sub-IFD) for GPS, maker notes and a thumbnail IFD
+function exifDetails(bytes: Uint8Array, tiff: number): MetadataKind[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const kinds: MetadataKind[] = [];
+  const little = view.getUint16(tiff) === 0x4949;
+
+  const readIfd = (offset: number, visit: (tag: number, value: number) => void): number => {
+    if (offset + 2 > bytes.length) return 0;
+    const entries = view.getUint16(offset, little);
+    for (let i = 0; i < entries; i++) {
+      const entry = offset + 2 + i * 12;
+      if (entry + 12 > bytes.length) return 0;
+      visit(view.getUint16(entry, little), view.getUint32(entry + 8, little));
+    }
+    const next = offset + 2 + entries * 12;
+    return next + 4 <= bytes.length ? view.getUint32(next, little) : 0;
+  };
+
+  let subIfd = 0;
+  const nextIfd = readIfd(tiff + view.getUint32(tiff + 4, little), (tag, value) => {
+    if (tag === EXIF_GPS_POINTER) kinds.push('gps');
+    if (tag === EXIF_SUB_IFD_POINTER) subIfd = value;
+  });
+  if (subIfd) {
+    readIfd(tiff + subIfd, tag => {
+      if (tag === EXIF_MAKER_NOTE) kinds.push('maker-notes');
+    });
+  }
+  // IFD1 only exists to hold the embedded thumbnail
+  if (nextIfd) kinds.push('thumbnail');
+  return kinds;
+}
+
+function jpegMetadata(bytes: Uint8Array): MetadataKind[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const kinds: MetadataKind[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    const marker = view.getUint16(offset);
+    if (marker === 0xffda || (marker & 0xff00) !== 0xff00) break;
+    const length = view.getUint16(offset + 2);
+    const body = offset + 4;
+
+    if (marker === 0xffe1 && ascii(bytes, body, 6) === 'Exif\0\0') {
+      kinds.push('exif');
+      try {
+        kinds.push(...exifDetails(bytes, body + 6));
+      } catch {
+        // A damaged Exif block is still reported as Exif
+      }
+    } else if (marker === 0xffe1 && ascii(bytes, body, 4) === 'http') {
+      kinds.push('xmp');
+    } else if (marker === 0xffe2 && ascii(bytes, body, 11) === 'ICC_PROFILE') {
+      kinds.push('icc-profile');
+    } else if (marker === 0xffed) {
+      kinds.push('iptc');
+    } else if (marker === 0xfffe) {
+      kinds.push('comment');
+    } else if (marker >= 0xffe1 && marker <= 0xffef && marker !== 0xffee) {
+      // APP14 (Adobe) only describes the colour transform
+      kinds.push('vendor-data');
+    }
+    offset += 2 + length;
+  }
+  return kinds;
+}
+
+function pngMetadata(bytes: Uint8Array): MetadataKind[] {
+  const kinds: MetadataKind[] = [];
+  for (const { type } of pngChunks(bytes)) {
+    if (PNG_KEEP.has(type)) continue;
+    kinds.push(PNG_CHUNK_KINDS[type] ?? 'vendor-data');
+  }
+  return kinds;
+}
+
+// HEIF keeps Exif and XMP as items; their payloads start with recognisable markers
+function heifMetadata(bytes: Uint8Array): MetadataKind[] {
+  // Metadata items sit near the start of the file; the first megabyte is plenty
+  const text = new TextDecoder('latin1').decode(bytes.subarray(0, 1 << 20));
+  const kinds: MetadataKind[] = [];
+  if (text.includes('Exif\0\0')) kinds.push('exif');
+  if (text.includes('http://ns.adobe.com/xap/')) kinds.push('xmp');
+  if (text.includes('colr') && text.includes('prof')) kinds.push('icc-profile');
+  return kinds;
+}
+
+export function inspectMetadata(bytes: Uint8Array): MetadataKind[] {
+  let kinds: MetadataKind[];
+  if (isPng(bytes)) kinds = pngMetadata(bytes);
+  else {
+    switch (detectContainer(bytes.slice(0, 16).buffer)) {
+      case 'jpeg': kinds = jpegMetadata(bytes); break;
+      case 'heif': kinds = heifMetadata(bytes); break;
+      default: kinds = [];
+    }
+  }
+  return [...new Set(kinds)];
+}
+
+// Copies only the chunks in PNG_KEEP
+export function stripPngMetadata(bytes: Uint8Array): Uint8Array {
+  const parts: Uint8Array[] = [bytes.subarray(0, PNG_SIGNATURE.length)];
+  for (const chunk of pngChunks(bytes)) {
+    if (PNG_KEEP.has(chunk.type)) parts.push(bytes.subarray(chunk.start, chunk.end));
+  }
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+// Re-encodes the image from raw pixels, strips any metadata chunk the encoder added
+// and checks the final bytes. Throws PrivacyError rather than return a file that
+// still carries metadata. `original` is the uploaded file, used for the report.
+export async function exportWithoutMetadata(
+  image: CanvasImageSource & { width: number; height: number },
+  original?: Blob | null
+): Promise<{ blob: Blob; report: PrivacyReport }> {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  canvas.getContext('2d')!.drawImage(image, 0, 0);
+
+  const encoded = new Uint8Array(await (await canvasToBlob(canvas, 'image/png')).arrayBuffer());
+  const bytes = stripPngMetadata(encoded);
+
+  const remaining = inspectMetadata(bytes);
+  if (remaining.length > 0) throw new PrivacyError(remaining);
+
+  const removed = original ? inspectMetadata(new Uint8Array(await original.arrayBuffer())) : [];
+  const blob = new Blob([bytes], { type: 'image/png' });
+  return {
+    blob,
+    report: {
+      removed,
+      verified: true,
+      format: 'image/png',
+      width: canvas.width,
+      height: canvas.height,
+      byteSize: blob.size,
+    },
+  };
+}
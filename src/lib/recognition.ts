@@ -0,0 +1,62 @@
+// Who gets masked, decided by comparing each detected face with faces the user has
+// enrolled on this device
+
+export type RecognitionRule = 'all' | 'all-except-enrolled' | 'only-enrolled';
+
+export interface RecognitionSettings {
+  rule: RecognitionRule;
+  // Largest descriptor distance that still counts as the same person; lower is stricter
+  threshold: number;
+}
+
+export const DEFAULT_RECOGNITION_SETTINGS: RecognitionSettings = { rule: 'all', threshold: 0.5 };
+
+export const THRESHOLD_RANGE = { min: 0.3, max: 0.8, step: 0.05 };
+
+export const RECOGNITION_RULE_LABELS: Record<RecognitionRule, string> = {
+  all: 'Mask everyone',
+  'all-except-enrolled': 'Mask everyone except enrolled people',
+  'only-enrolled': 'Mask only enrolled people',
+};
+
+export interface EnrolledFace {
+  id: string;
+  name: string;
+  descriptor: number[];
+  // Small data URL shown in the enrolment list
+  thumbnail: string;
+  createdAt: number;
+}
+
+export interface FaceMatch {
+  id: string;
+  name: string;
+  distance: number;
+}
+
+function euclidean(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+  return Math.sqrt(sum);
+}
+
+// Closest enrolled face within the threshold
+export function matchFace(
+  descriptor: number[],
+  enrolled: Pick<EnrolledFace, 'id' | 'name' | 'descriptor'>[],
+  threshold: number
+): FaceMatch | null {
+  let best: FaceMatch | null = null;
+  for (const { id, name, descriptor: reference } of enrolled) {
+    const distance = euclidean(descriptor, reference);
+    if (distance <= threshold && (!best || distance < best.distance)) best = { id, name, distance };
+  }
+  return best;
+}
+
+// Whether a face should be masked under the rule. Faces without a descriptor can't be
+// identified, so they are masked to be safe.
+export function shouldMask(rule: RecognitionRule, match: FaceMatch | null, hasDescriptor: boolean): boolean {
+  if (rule === 'all' || !hasDescriptor) return true;
+  return rule === 'only-enrolled' ? match !== null : match === null;
+}
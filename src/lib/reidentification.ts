@@ -0,0 +1,94 @@
+import type { FaceDetectionData } from "@/lib/face-detector";
+import type { Bounds, Point } from "@/lib/geometry";
+
+// A masked face the detector still finds with at least this score counts as recognisable
+export const REIDENTIFICATION_THRESHOLD = 0.5;
+
+// The verification pass detects with a low threshold so weak, partial matches still
+// show up in the anonymisation score instead of silently reading as 0
+export const VERIFICATION_SCORE_THRESHOLD = 0.1;
+
+// Re-detected landmarks closer than this to the originals mean the face structure survived
+const LANDMARK_ALIGNMENT_LIMIT = 0.75;
+
+// Boxes must overlap this much for a re-detection to belong to a masked face
+const MIN_IOU = 0.3;
+
+export interface FaceVerification {
+  // Best detector score on the masked image for this face, 0 when not found
+  detectionScore: number;
+  // 0..1 agreement of re-detected landmarks with the originals; null when not checked
+  landmarkAlignment: number | null;
+  recognisable: boolean;
+}
+
+export interface VerificationResult {
+  // One entry per face, null for faces the user chose not to mask
+  faces: (FaceVerification | null)[];
+  // 1 - the highest remaining detection score among masked faces
+  anonymisationScore: number;
+  passed: boolean;
+  checkedLandmarks: boolean;
+}
+
+export interface Redetection {
+  box: Bounds;
+  score: number;
+  landmarks?: Point[];
+}
+
+function iou(a: Bounds, b: Bounds): number {
+  const x = Math.max(0, Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x));
+  const y = Math.max(0, Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y));
+  const overlap = x * y;
+  const union = a.width * a.height + b.width * b.height - overlap;
+  return union > 0 ? overlap / union : 0;
+}
+
+function landmarkAlignment(original: Point[], redetected: Point[]): number {
+  const eye = (from: number) => {
+    const pts = original.slice(from, from + 6);
+    return { x: pts.reduce((s, p) => s + p.x, 0) / 6, y: pts.reduce((s, p) => s + p.y, 0) / 6 };
+  };
+  const left = eye(36);
+  const right = eye(42);
+  const eyeDistance = Math.hypot(right.x - left.x, right.y - left.y) || 1;
+
+  const count = Math.min(original.length, redetected.length);
+  let total = 0;
+  for (let i = 0; i < count; i++) {
+    total += Math.hypot(original[i].x - redetected[i].x, original[i].y - redetected[i].y);
+  }
+  // Averaging off by half the eye distance is as good as a random guess
+  return Math.max(0, Math.min(1, 1 - total / count / (eyeDistance * 0.5)));
+}
+
+// Matches detections found on the masked image against the faces that were masked
+export function assessReidentification(
+  faces: { detection: FaceDetectionData; enabled: boolean }[],
+  redetections: Redetection[],
+  checkedLandmarks: boolean
+): VerificationResult {
+  const results = faces.map(({ detection, enabled }): FaceVerification | null => {
+    if (!enabled) return null;
+
+    const match = redetections
+      .filter(r => iou(r.box, detection.box) >= MIN_IOU)
+      .sort((a, b) => b.score - a.score)[0];
+    if (!match) return { detectionScore: 0, landmarkAlignment: checkedLandmarks ? 0 : null, recognisable: false };
+
+    const alignment = match.landmarks ? landmarkAlignment(detection.landmarks, match.landmarks) : null;
+    const recognisable = match.score >= REIDENTIFICATION_THRESHOLD
+      || (alignment !== null && alignment >= LANDMARK_ALIGNMENT_LIMIT && match.score >= REIDENTIFICATION_THRESHOLD / 2);
+    return { detectionScore: match.score, landmarkAlignment: alignment, recognisable };
+  });
+
+  const checked = results.filter((r): r is FaceVerification => r !== null);
+  const worst = Math.max(0, ...checked.map(r => r.detectionScore));
+  return {
+    faces: results,
+    anonymisationScore: 1 - worst,
+    passed: checked.every(r => !r.recognisable),
+    checkedLandmarks,
+  };
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { estimateSkinTone, LOW_SKIN_CONFIDENCE } from "@/lib/skin-tone";
+import { BACKGROUND, FACE_BOX, faceLandmarks, facePhoto, paintBox, SKIN } from "@/test/fixtures";
+
+describe("estimateSkinTone", () => {
+  it("returns the skin colour of an evenly lit face with high confidence", () => {
+    const estimate = estimateSkinTone(facePhoto(), faceLandmarks());
+
+    estimate.rgb.forEach((channel, i) => expect(Math.abs(channel - SKIN[i])).toBeLessThanOrEqual(1));
+    expect(estimate.confidence).toBeGreaterThan(0.9);
+    expect(estimate.sampleCount).toBeGreaterThan(0);
+  });
+
+  it("ignores a fringe over the forehead and lowers the confidence", () => {
+    // Hair covers the top of the face box, where the forehead patch sits
+    const photo = paintBox(facePhoto(), { ...FACE_BOX, height: 20 }, [30, 20, 15]);
+    const estimate = estimateSkinTone(photo, faceLandmarks());
+
+    estimate.rgb.forEach((channel, i) => expect(Math.abs(channel - SKIN[i])).toBeLessThanOrEqual(2));
+    expect(estimate.confidence).toBeLessThan(estimateSkinTone(facePhoto(), faceLandmarks()).confidence);
+  });
+
+  it("flags patches that disagree as unreliable", () => {
+    // One cheek and the forehead in skin, the other cheek on the background colour
+    const photo = paintBox(facePhoto(), { x: 100, y: FACE_BOX.y + 60, width: 50, height: 60 }, BACKGROUND);
+    expect(estimateSkinTone(photo, faceLandmarks()).confidence).toBeLessThan(LOW_SKIN_CONFIDENCE);
+  });
+
+  it("falls back to grey with no confidence when the face is off the image", () => {
+    const estimate = estimateSkinTone(facePhoto(), faceLandmarks({ x: 500, y: 500, width: 100, height: 120 }));
+
+    expect(estimate).toEqual({ color: "rgb(211, 211, 211)", rgb: [211, 211, 211], confidence: 0, sampleCount: 0 });
+  });
+});
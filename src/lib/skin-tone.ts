@@ -0,0 +1,119 @@
+import { deltaE, labToRgb, rgbString, rgbToLab, type Lab, type Rgb } from "@/lib/color";
+import type { Point } from "@/lib/geometry";
+import type { PixelBuffer } from "@/lib/masking/pixel-buffer";
+
+export interface SkinToneEstimate {
+  color: string;
+  rgb: Rgb;
+  // 0..1; low values mean the patches disagreed, were noisy or fell off the image
+  confidence: number;
+  sampleCount: number;
+}
+
+// Below this the UI should warn that the fill colour may be off
+export const LOW_SKIN_CONFIDENCE = 0.5;
+
+const FALLBACK_SKIN: Rgb = [211, 211, 211];
+
+// Samples further than this many MADs from the median colour are rejected
+const OUTLIER_MADS = 2.5;
+
+interface Patch {
+  center: Point;
+  radius: number;
+}
+
+const mean = (points: Point[]): Point => ({
+  x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+  y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+});
+
+const lerp = (a: Point, b: Point, t: number): Point => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+
+// Patches in the middle of both cheeks and on the lower forehead, sized from the
+// distance between the eyes so they scale with the face. `lm` is the 68-point layout.
+function skinPatches(lm: Point[]): Patch[] {
+  const leftEye = mean(lm.slice(36, 42));
+  const rightEye = mean(lm.slice(42, 48));
+  const eyeDistance = Math.hypot(rightEye.x - leftEye.x, rightEye.y - leftEye.y);
+  const radius = Math.max(2, eyeDistance * 0.15);
+
+  // Forehead: continue the chin -> brow axis past the brows, which also follows head tilt
+  const browCenter = mean(lm.slice(17, 27));
+  const chin = lm[8];
+  const forehead = lerp(chin, browCenter, 1.15);
+
+  return [
+    { center: lerp(lm[2], lm[31], 0.5), radius },
+    { center: lerp(lm[14], lm[35], 0.5), radius },
+    { center: forehead, radius: radius * 0.8 },
+  ];
+}
+
+function median(values: number[]): number {
+  const sorted = values.slice().sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function medianLab(samples: Lab[]): Lab {
+  return [0, 1, 2].map(c => median(samples.map(s => s[c]))) as Lab;
+}
+
+// Returns the in-bounds samples and how much of the patch area was on the image
+function samplePatch(pixels: PixelBuffer, { center, radius }: Patch): { samples: Lab[]; coverage: number } {
+  const samples: Lab[] = [];
+  let total = 0;
+  const r = Math.ceil(radius);
+  // Patches on big photos hold thousands of pixels; a stride keeps this cheap
+  const step = Math.max(1, Math.floor(r / 8));
+  for (let dy = -r; dy <= r; dy += step) {
+    for (let dx = -r; dx <= r; dx += step) {
+      if (dx * dx + dy * dy > radius * radius) continue;
+      total++;
+      const x = Math.round(center.x + dx);
+      const y = Math.round(center.y + dy);
+      if (x < 0 || y < 0 || x >= pixels.width || y >= pixels.height) continue;
+      const idx = (y * pixels.width + x) * 4;
+      samples.push(rgbToLab([pixels.data[idx], pixels.data[idx + 1], pixels.data[idx + 2]]));
+    }
+  }
+  return { samples, coverage: total ? samples.length / total : 0 };
+}
+
+export function estimateSkinTone(pixels: PixelBuffer, landmarks: Point[]): SkinToneEstimate {
+  const patches = skinPatches(landmarks).map(patch => samplePatch(pixels, patch));
+  const all = patches.flatMap(p => p.samples);
+
+  if (all.length === 0) {
+    return { color: rgbString(FALLBACK_SKIN), rgb: FALLBACK_SKIN, confidence: 0, sampleCount: 0 };
+  }
+
+  // Reject hair, shadow, glasses and background by distance from the median colour
+  const center = medianLab(all);
+  const distances = all.map(s => deltaE(s, center));
+  const mad = Math.max(1, median(distances));
+  const inliers = all.filter((_, i) => distances[i] <= mad * OUTLIER_MADS);
+
+  const estimate = [0, 1, 2].map(c => inliers.reduce((sum, s) => sum + s[c], 0) / inliers.length) as Lab;
+  const rgb = labToRgb(estimate);
+
+  // Confidence drops when samples are scattered, when the patches disagree with each
+  // other (one cheek in shadow, fringe over the forehead) or when patches left the image
+  const spread = inliers.reduce((sum, s) => sum + deltaE(s, estimate), 0) / inliers.length;
+  const patchMedians = patches.filter(p => p.samples.length > 0).map(p => medianLab(p.samples));
+  const disagreement = patchMedians.length > 1
+    ? Math.max(...patchMedians.map(m => deltaE(m, estimate)))
+    : 30;
+  const coverage = patches.reduce((sum, p) => sum + p.coverage, 0) / patches.length;
+  const inlierRatio = inliers.length / all.length;
+
+  const confidence = inlierRatio * coverage * Math.exp(-spread / 40) * Math.exp(-disagreement / 40);
+
+  return {
+    color: rgbString(rgb),
+    rgb,
+    confidence: Math.min(1, Math.max(0, confidence)),
+    sampleCount: inliers.length,
+  };
+}
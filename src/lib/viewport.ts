@@ -0,0 +1,103 @@
+import type { Bounds, Point } from "@/lib/geometry";
+
+// Zoom and pan of an image inside a view. A screen point (relative to the view's top left)
+// is `image point * scale + offset`.
+export interface Viewport {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+// Zooming in stops at 800%; zooming out at half the fitted size, or 100% for small images
+export const MAX_ZOOM = 8;
+const MIN_ZOOM_OF_FIT = 0.5;
+
+// Part of the view that must keep showing the image, so it can't be panned out of reach
+const MIN_VISIBLE_RATIO = 0.25;
+
+export function screenToImage({ scale, x, y }: Viewport, point: Point): Point {
+  return { x: (point.x - x) / scale, y: (point.y - y) / scale };
+}
+
+export function imageToScreen({ scale, x, y }: Viewport, point: Point): Point {
+  return { x: point.x * scale + x, y: point.y * scale + y };
+}
+
+export function fitScale(image: Size, view: Size): number {
+  return Math.min(view.width / image.width, view.height / image.height);
+}
+
+// The whole image, centred; small images are shown at 100% rather than blown up
+export function fitViewport(image: Size, view: Size): Viewport {
+  const scale = Math.min(1, fitScale(image, view));
+  return centredViewport(image, view, scale);
+}
+
+export function centredViewport(image: Size, view: Size, scale: number): Viewport {
+  return {
+    scale,
+    x: (view.width - image.width * scale) / 2,
+    y: (view.height - image.height * scale) / 2,
+  };
+}
+
+export function zoomLimits(image: Size, view: Size): { min: number; max: number } {
+  return { min: Math.min(1, fitScale(image, view)) * MIN_ZOOM_OF_FIT, max: MAX_ZOOM };
+}
+
+// Keeps part of the image in view whichever way it is panned
+export function clampViewport(viewport: Viewport, image: Size, view: Size): Viewport {
+  const clampAxis = (offset: number, imageSize: number, viewSize: number) => {
+    const keep = Math.min(imageSize, viewSize * MIN_VISIBLE_RATIO);
+    return Math.min(viewSize - keep, Math.max(keep - imageSize, offset));
+  };
+  return {
+    scale: viewport.scale,
+    x: clampAxis(viewport.x, image.width * viewport.scale, view.width),
+    y: clampAxis(viewport.y, image.height * viewport.scale, view.height),
+  };
+}
+
+// Zooms by `factor` while the image point under `anchor` (a screen point) stays put
+export function zoomAt(viewport: Viewport, factor: number, anchor: Point, image: Size, view: Size): Viewport {
+  const { min, max } = zoomLimits(image, view);
+  const scale = Math.min(max, Math.max(min, viewport.scale * factor));
+  const fixed = screenToImage(viewport, anchor);
+  return clampViewport(
+    { scale, x: anchor.x - fixed.x * scale, y: anchor.y - fixed.y * scale },
+    image,
+    view
+  );
+}
+
+export function panBy(viewport: Viewport, dx: number, dy: number, image: Size, view: Size): Viewport {
+  return clampViewport({ ...viewport, x: viewport.x + dx, y: viewport.y + dy }, image, view);
+}
+
+// Moves the view so `point` (in image pixels) is in its centre, e.g. from the minimap
+export function centreOn(viewport: Viewport, point: Point, image: Size, view: Size): Viewport {
+  return clampViewport(
+    { ...viewport, x: view.width / 2 - point.x * viewport.scale, y: view.height / 2 - point.y * viewport.scale },
+    image,
+    view
+  );
+}
+
+// The part of the image that is on screen, in image pixels
+export function visibleImageRect(viewport: Viewport, image: Size, view: Size): Bounds {
+  const topLeft = screenToImage(viewport, { x: 0, y: 0 });
+  const bottomRight = screenToImage(viewport, { x: view.width, y: view.height });
+  const x = Math.max(0, topLeft.x);
+  const y = Math.max(0, topLeft.y);
+  return {
+    x,
+    y,
+    width: Math.max(0, Math.min(image.width, bottomRight.x) - x),
+    height: Math.max(0, Math.min(image.height, bottomRight.y) - y),
+  };
+}
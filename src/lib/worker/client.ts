@@ -0,0 +1,208 @@
+import { ensureModels, type DetectorSettings, type FaceDetectionData } from "@/lib/face-detector";
+import { describeFaces as describeOnCanvas, NoFaceDetectedError, runMaskJob, verifyImage as verifyOnCanvas, type MaskJobRequest, type MaskJobResult, type MaskJobStage } from "@/lib/mask-job";
+import { getModelStates, subscribeModelStates as subscribeLocalModelStates, type ModelId, type ModelStates } from "@/lib/model-manager";
+import type { VerificationResult } from "@/lib/reidentification";
+import type { MaskWorkerRequest, MaskWorkerResponse } from "./protocol";
+
+export interface MaskRunResult extends MaskJobResult {
+  canvas: HTMLCanvasElement;
+}
+
+type WorkerReply = Extract<MaskWorkerResponse, { type: 'result' | 'models-loaded' | 'described' | 'verified' }>;
+
+interface PendingRequest {
+  resolve: (reply: WorkerReply) => void;
+  reject: (error: Error) => void;
+  onProgress?: (stage: MaskJobStage) => void;
+}
+
+// The worker could not start or crashed; the request should be retried on the main thread
+class WorkerUnavailableError extends Error {}
+
+let worker: Worker | null = null;
+// Set once the worker failed, so later requests go straight to the main thread
+let workerBroken = false;
+let nextRequestId = 1;
+const pending = new Map<number, PendingRequest>();
+
+// Models load wherever masking runs: in the worker, or on the main thread as a fallback
+let workerModelStates: ModelStates | null = null;
+const modelStateListeners = new Set<(states: ModelStates) => void>();
+let watchingLocalModels = false;
+
+function combinedModelStates(): ModelStates {
+  const local = getModelStates();
+  if (!workerModelStates) return local;
+  const worker = workerModelStates;
+  return Object.fromEntries(
+    (Object.keys(local) as ModelId[]).map(id => [id, local[id].state === 'idle' ? worker[id] : local[id]])
+  ) as ModelStates;
+}
+
+function notifyModelStates() {
+  const states = combinedModelStates();
+  modelStateListeners.forEach(listener => listener(states));
+}
+
+// Download state of every model, wherever it is being loaded
+export function subscribeModelStates(listener: (states: ModelStates) => void): () => void {
+  if (!watchingLocalModels) {
+    watchingLocalModels = true;
+    subscribeLocalModelStates(notifyModelStates);
+  }
+  modelStateListeners.add(listener);
+  listener(combinedModelStates());
+  return () => {
+    modelStateListeners.delete(listener);
+  };
+}
+
+export function supportsMaskWorker(): boolean {
+  if (workerBroken) return false;
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined' || typeof createImageBitmap === 'undefined') {
+    return false;
+  }
+  try {
+    // Some browsers expose OffscreenCanvas without a 2D context
+    return new OffscreenCanvas(1, 1).getContext('2d') !== null;
+  } catch {
+    return false;
+  }
+}
+
+function getWorker(): Worker {
+  if (worker) return worker;
+
+  worker = new Worker(new URL('./face-mask.worker.ts', import.meta.url));
+  worker.onmessage = ({ data }: MessageEvent<MaskWorkerResponse>) => {
+    if (data.type === 'model-states') {
+      workerModelStates = data.states;
+      notifyModelStates();
+      return;
+    }
+
+    const request = pending.get(data.id);
+    if (!request) return;
+
+    if (data.type === 'progress') {
+      request.onProgress?.(data.stage);
+      return;
+    }
+    pending.delete(data.id);
+    if (data.type === 'error') {
+      // Rebuilt so callers can tell a photo without faces from a real failure
+      request.reject(data.name === 'NoFaceDetectedError' ? new NoFaceDetectedError() : new Error(data.message));
+    } else {
+      request.resolve(data);
+    }
+  };
+  // A script-level error means the worker itself is unusable (failed to load, crashed)
+  worker.onerror = (event) => {
+    event.preventDefault();
+    console.error("Mask worker failed, falling back to the main thread:", event.message);
+    workerBroken = true;
+    worker?.terminate();
+    worker = null;
+    const failed = [...pending.values()];
+    pending.clear();
+    failed.forEach(request => request.reject(new WorkerUnavailableError(event.message)));
+  };
+  return worker;
+}
+
+function sendToWorker(
+  message: MaskWorkerRequest,
+  transfer: Transferable[] = [],
+  onProgress?: (stage: MaskJobStage) => void
+): Promise<WorkerReply> {
+  return new Promise((resolve, reject) => {
+    pending.set(message.id, { resolve, reject, onProgress });
+    getWorker().postMessage(message, transfer);
+  });
+}
+
+function drawToCanvas(source: CanvasImageSource, width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')!.drawImage(source, 0, 0);
+  return canvas;
+}
+
+async function runInWorker(image: HTMLImageElement, job: MaskJobRequest, onProgress?: (stage: MaskJobStage) => void): Promise<MaskRunResult> {
+  const bitmap = await createImageBitmap(image);
+  const reply = await sendToWorker({ type: 'mask', id: nextRequestId++, bitmap, job }, [bitmap], onProgress);
+  if (reply.type !== 'result') throw new Error(`Unexpected worker reply: ${reply.type}`);
+
+  const canvas = drawToCanvas(reply.bitmap, reply.bitmap.width, reply.bitmap.height);
+  reply.bitmap.close();
+  const { faces, featureConfig, verification } = reply;
+  return { canvas, faces, featureConfig, verification };
+}
+
+async function runOnMainThread(image: HTMLImageElement, job: MaskJobRequest, onProgress?: (stage: MaskJobStage) => void): Promise<MaskRunResult> {
+  const canvas = drawToCanvas(image, image.width, image.height);
+  return { canvas, ...(await runMaskJob(canvas, job, onProgress)) };
+}
+
+// Loads the models wherever masking will run, so the first photo doesn't wait for them
+export async function preloadModels(detector: DetectorSettings): Promise<void> {
+  if (supportsMaskWorker()) {
+    try {
+      await sendToWorker({ type: 'load-models', id: nextRequestId++, detector });
+      return;
+    } catch (error) {
+      if (!(error instanceof WorkerUnavailableError)) throw error;
+    }
+  }
+  await ensureModels(detector);
+}
+
+// Detects and masks off the main thread where possible, so animations keep running
+// while large photos are processed
+export async function runMask(image: HTMLImageElement, job: MaskJobRequest, onProgress?: (stage: MaskJobStage) => void): Promise<MaskRunResult> {
+  if (supportsMaskWorker()) {
+    try {
+      return await runInWorker(image, job, onProgress);
+    } catch (error) {
+      if (!(error instanceof WorkerUnavailableError)) throw error;
+    }
+  }
+  return runOnMainThread(image, job, onProgress);
+}
+
+// Faces with recognition descriptors, for enrolling reference photos
+export async function describeFaces(image: HTMLImageElement, detector: DetectorSettings): Promise<FaceDetectionData[]> {
+  if (supportsMaskWorker()) {
+    try {
+      const bitmap = await createImageBitmap(image);
+      const reply = await sendToWorker({ type: 'describe', id: nextRequestId++, bitmap, detector }, [bitmap]);
+      if (reply.type !== 'described') throw new Error(`Unexpected worker reply: ${reply.type}`);
+      return reply.faces;
+    } catch (error) {
+      if (!(error instanceof WorkerUnavailableError)) throw error;
+    }
+  }
+  return describeOnCanvas(drawToCanvas(image, image.width, image.height), detector);
+}
+
+// Re-runs the detector check on an image that is already masked, such as the flattened
+// layers, so touch-ups made after masking are checked too
+export async function verifyImage(
+  image: HTMLCanvasElement,
+  faces: { detection: FaceDetectionData; enabled: boolean }[],
+  detector: DetectorSettings,
+  landmarks: boolean
+): Promise<VerificationResult> {
+  if (supportsMaskWorker()) {
+    try {
+      const bitmap = await createImageBitmap(image);
+      const reply = await sendToWorker({ type: 'verify', id: nextRequestId++, bitmap, faces, detector, landmarks }, [bitmap]);
+      if (reply.type !== 'verified') throw new Error(`Unexpected worker reply: ${reply.type}`);
+      return reply.verification;
+    } catch (error) {
+      if (!(error instanceof WorkerUnavailableError)) throw error;
+    }
+  }
+  return verifyOnCanvas(image, faces, detector, landmarks);
+}
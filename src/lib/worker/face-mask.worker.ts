@@ -0,0 +1,67 @@
+import * as faceapi from 'face-api.js';
+import { ensureModels } from "@/lib/face-detector";
+import { describeFaces, runMaskJob, verifyImage } from "@/lib/mask-job";
+import { subscribeModelStates } from "@/lib/model-manager";
+import type { MaskWorkerRequest, MaskWorkerResponse } from "./protocol";
+
+// face-api only knows the window and Node environments. Inside a worker, OffscreenCanvas
+// stands in for every canvas it creates, and there are no image or video elements.
+class NoMediaElement {}
+
+faceapi.env.setEnv({
+  Canvas: OffscreenCanvas as unknown as typeof HTMLCanvasElement,
+  CanvasRenderingContext2D: OffscreenCanvasRenderingContext2D as unknown as typeof CanvasRenderingContext2D,
+  Image: NoMediaElement as unknown as typeof HTMLImageElement,
+  ImageData,
+  Video: NoMediaElement as unknown as typeof HTMLVideoElement,
+  createCanvasElement: () => new OffscreenCanvas(1, 1) as unknown as HTMLCanvasElement,
+  createImageElement: () => {
+    throw new Error('createImageElement - image elements are not available in a worker');
+  },
+  fetch: (url, init) => fetch(url, init),
+  readFile: () => {
+    throw new Error('readFile - filesystem not available in a worker');
+  },
+});
+
+const post = (message: MaskWorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+subscribeModelStates(states => post({ type: 'model-states', states }));
+
+self.onmessage = async ({ data }: MessageEvent<MaskWorkerRequest>) => {
+  const { id } = data;
+  try {
+    if (data.type === 'load-models') {
+      await ensureModels(data.detector);
+      post({ type: 'models-loaded', id });
+      return;
+    }
+
+    const { bitmap } = data;
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+    bitmap.close();
+
+    if (data.type === 'describe') {
+      post({ type: 'described', id, faces: await describeFaces(canvas, data.detector) });
+      return;
+    }
+    if (data.type === 'verify') {
+      post({ type: 'verified', id, verification: await verifyImage(canvas, data.faces, data.detector, data.landmarks) });
+      return;
+    }
+
+    const jobResult = await runMaskJob(canvas, data.job, stage => post({ type: 'progress', id, stage }));
+    const result = canvas.transferToImageBitmap();
+    post({ type: 'result', id, bitmap: result, ...jobResult }, [result]);
+  } catch (error: unknown) {
+    post({
+      type: 'error',
+      id,
+      message: error instanceof Error ? error.message : String(error),
+      name: error instanceof Error ? error.name : undefined,
+    });
+  }
+};
@@ -0,0 +1,31 @@
+import type { DetectorSettings, FaceDetectionData } from "@/lib/face-detector";
+import type { MaskJobRequest, MaskJobResult, MaskJobStage } from "@/lib/mask-job";
+import type { ModelStates } from "@/lib/model-manager";
+import type { VerificationResult } from "@/lib/reidentification";
+
+// Messages between the page and the mask worker. Every request carries an id so
+// responses can be matched to the request that started them.
+
+export type MaskWorkerRequest =
+  | { type: 'load-models'; id: number; detector: DetectorSettings }
+  // The bitmap is transferred, not copied
+  | { type: 'mask'; id: number; bitmap: ImageBitmap; job: MaskJobRequest }
+  | { type: 'describe'; id: number; bitmap: ImageBitmap; detector: DetectorSettings }
+  | {
+      type: 'verify';
+      id: number;
+      bitmap: ImageBitmap;
+      faces: { detection: FaceDetectionData; enabled: boolean }[];
+      detector: DetectorSettings;
+      landmarks: boolean;
+    };
+
+export type MaskWorkerResponse =
+  | { type: 'progress'; id: number; stage: MaskJobStage }
+  // Sent whenever a model's download state changes in the worker, not tied to a request
+  | { type: 'model-states'; states: ModelStates }
+  | { type: 'models-loaded'; id: number }
+  | { type: 'described'; id: number; faces: FaceDetectionData[] }
+  | { type: 'verified'; id: number; verification: VerificationResult }
+  | ({ type: 'result'; id: number; bitmap: ImageBitmap } & MaskJobResult)
+  | { type: 'error'; id: number; message: string; name?: string };
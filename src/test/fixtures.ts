@@ -0,0 +1,62 @@
+import type { Rgb } from "@/lib/color";
+import type { Bounds, Point } from "@/lib/geometry";
+import { createPixelBuffer, type PixelBuffer } from "@/lib/masking/pixel-buffer";
+
+// Inputs shared by the masking tests: a flat-coloured photo with an average frontal
+// face placed on it, so the expected pixels can be worked out by hand.
+
+export const IMAGE_SIZE = 200;
+export const FACE_BOX: Bounds = { x: 50, y: 40, width: 100, height: 120 };
+export const SKIN: Rgb = [198, 150, 120];
+export const BACKGROUND: Rgb = [40, 90, 160];
+
+const ellipse = (cx: number, cy: number, rx: number, ry: number, angles: number[]): Point[] =>
+  angles.map(a => ({ x: cx + rx * Math.cos(a), y: cy - ry * Math.sin(a) }));
+
+const range = (count: number, map: (i: number) => number) => Array.from({ length: count }, (_, i) => map(i));
+
+// The 68-point layout in a unit box: jaw, brows, nose bridge and base, eyes, outer and
+// inner lips
+const TEMPLATE: Point[] = [
+  ...range(17, i => Math.PI - (Math.PI * i) / 16).map(a => ({ x: 0.5 + 0.48 * Math.cos(a), y: 0.3 + 0.7 * Math.sin(a) })),
+  ...range(5, i => i).map(i => ({ x: 0.12 + i * 0.08, y: 0.22 - 0.05 * Math.sin((Math.PI * i) / 4) })),
+  ...range(5, i => i).map(i => ({ x: 0.56 + i * 0.08, y: 0.22 - 0.05 * Math.sin((Math.PI * i) / 4) })),
+  ...range(4, i => i).map(i => ({ x: 0.5, y: 0.33 + i * 0.085 })),
+  ...range(5, i => i).map(i => ({ x: 0.39 + i * 0.055, y: 0.64 + 0.02 * Math.sin((Math.PI * i) / 4) })),
+  ...ellipse(0.3, 0.36, 0.09, 0.035, range(6, i => Math.PI - (Math.PI * i) / 3)),
+  ...ellipse(0.7, 0.36, 0.09, 0.035, range(6, i => Math.PI - (Math.PI * i) / 3)),
+  ...ellipse(0.5, 0.78, 0.17, 0.06, range(12, i => Math.PI - (Math.PI * i) / 6)),
+  ...ellipse(0.5, 0.78, 0.11, 0.02, range(8, i => Math.PI - (Math.PI * i) / 4)),
+];
+
+// Centre of the template's left eye inside FACE_BOX
+export const LEFT_EYE: Point = { x: FACE_BOX.x + 0.3 * FACE_BOX.width, y: FACE_BOX.y + 0.36 * FACE_BOX.height };
+
+export const faceLandmarks = ({ x, y, width, height }: Bounds = FACE_BOX): Point[] =>
+  TEMPLATE.map(p => ({ x: x + p.x * width, y: y + p.y * height }));
+
+export function solidImage(color: Rgb, width: number = IMAGE_SIZE, height: number = IMAGE_SIZE): PixelBuffer {
+  const pixels = createPixelBuffer(width, height);
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    pixels.data.set([...color, 255], i);
+  }
+  return pixels;
+}
+
+// Paints `box` in `color`, in place
+export function paintBox(pixels: PixelBuffer, box: Bounds, color: Rgb): PixelBuffer {
+  for (let y = box.y; y < box.y + box.height; y++) {
+    for (let x = box.x; x < box.x + box.width; x++) {
+      pixels.data.set(color, (y * pixels.width + x) * 4);
+    }
+  }
+  return pixels;
+}
+
+export const facePhoto = (): PixelBuffer => paintBox(solidImage(BACKGROUND), FACE_BOX, SKIN);
+
+// [r, g, b, a] at a pixel
+export function pixelAt(pixels: PixelBuffer, { x, y }: Point): number[] {
+  const idx = (Math.round(y) * pixels.width + Math.round(x)) * 4;
+  return Array.from(pixels.data.subarray(idx, idx + 4));
+}